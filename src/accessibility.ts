@@ -0,0 +1,117 @@
+import { ElementHandle, Page, SerializedAXNode } from 'puppeteer';
+import { installRefHelpers, RefFingerprint } from './refs.js';
+
+export interface AxSnapshotOptions {
+  /** Maximum depth of the printed tree (the root is depth 0) */
+  maxDepth?: number;
+  /** Only print interactive controls (buttons, links, form fields, ...) */
+  interactiveOnly?: boolean;
+  /** Element to use as the snapshot root instead of the whole page */
+  root?: ElementHandle<Node>;
+}
+
+// Roles that can be targeted by browser_action and therefore receive a ref
+export const INTERACTIVE_ROLES = new Set([
+  'button', 'link', 'textbox', 'searchbox', 'combobox', 'listbox', 'option', 'checkbox', 'radio', 'switch',
+  'slider', 'spinbutton', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab', 'treeitem', 'gridcell'
+]);
+
+interface AxOutNode {
+  node: SerializedAXNode;
+  ref?: string;
+  children: AxOutNode[];
+}
+
+const statesOf = (node: SerializedAXNode): string[] => {
+  const states: string[] = [];
+  if (node.level !== undefined) states.push(`level=${node.level}`);
+  if (node.checked !== undefined) states.push(node.checked === 'mixed' ? 'checked=mixed' : node.checked ? 'checked' : 'unchecked');
+  if (node.pressed !== undefined) states.push(node.pressed === 'mixed' ? 'pressed=mixed' : node.pressed ? 'pressed' : 'not-pressed');
+  if (node.expanded !== undefined) states.push(node.expanded ? 'expanded' : 'collapsed');
+  if (node.selected) states.push('selected');
+  if (node.disabled) states.push('disabled');
+  if (node.focused) states.push('focused');
+  if (node.required) states.push('required');
+  if (node.readonly) states.push('readonly');
+  if (node.invalid && node.invalid !== 'false') states.push('invalid');
+  return states;
+};
+
+// Flattens non-interactive nodes away when only controls are requested
+const prune = (node: SerializedAXNode, interactiveOnly: boolean, isRoot: boolean): AxOutNode[] => {
+  const children = (node.children || []).flatMap(child => prune(child, interactiveOnly, false));
+  if (interactiveOnly && !isRoot && !INTERACTIVE_ROLES.has(node.role)) return children;
+  return [{ node, children }];
+};
+
+// Tags the DOM node behind an AX node with its fingerprint-derived data-mcp-ref
+const assignRef = async (node: SerializedAXNode, refs: Map<string, RefFingerprint>): Promise<string | undefined> => {
+  const handle = await node.elementHandle().catch(() => null);
+  if (!handle) return undefined;
+  try {
+    await handle.frame.evaluate(installRefHelpers);
+    const assigned = await handle.evaluate((el: Node) =>
+      el.nodeType === 1 ? (window as any).__mcpRefs.assign(el) as { ref: string; fingerprint: RefFingerprint } : undefined
+    );
+    if (!assigned) return undefined;
+    refs.set(assigned.ref, assigned.fingerprint);
+    return assigned.ref;
+  } catch (e) {
+    return undefined;
+  } finally {
+    await handle.dispose();
+  }
+};
+
+const formatNode = (out: AxOutNode, depth: number, maxDepth: number, indent: string = ''): string => {
+  const { node } = out;
+  const value = node.valuetext ?? node.value;
+  let line = `${indent}${node.role}: "${node.name ?? ''}"`;
+  if (value !== undefined && value !== '') line += ` value="${value}"`;
+  for (const state of statesOf(node)) line += ` [${state}]`;
+  if (out.ref) line += ` [ref:${out.ref}]`;
+  let text = `${line}\n`;
+
+  if (out.children.length > 0) {
+    if (depth >= maxDepth) {
+      text += `${indent}  … ${out.children.length} more\n`;
+    } else {
+      out.children.forEach(child => { text += formatNode(child, depth + 1, maxDepth, indent + '  '); });
+    }
+  }
+  return text;
+};
+
+/**
+ * Builds a text snapshot from Chrome's accessibility tree (computed roles, names,
+ * states and values, including shadow DOM and same-process iframes). Interactive
+ * nodes get a `ref` that performBrowserAction can target; their fingerprints are
+ * recorded in `refs` so stale refs can be re-located later.
+ */
+export const getAxSnapshot = async (
+  page: Page,
+  options: AxSnapshotOptions = {},
+  refs: Map<string, RefFingerprint> = new Map()
+): Promise<string> => {
+  const snapshot = await page.accessibility.snapshot({
+    interestingOnly: true,
+    includeIframes: true,
+    root: options.root
+  });
+  if (!snapshot) {
+    throw new Error(options.root ? 'Snapshot root is not exposed in the accessibility tree' : 'Accessibility tree is empty');
+  }
+
+  const [tree] = prune(snapshot, options.interactiveOnly ?? false, true);
+  const maxDepth = options.maxDepth ?? Infinity;
+
+  // Only nodes that will actually be printed need a ref
+  const queue: Array<{ out: AxOutNode; depth: number }> = [{ out: tree, depth: 0 }];
+  while (queue.length > 0) {
+    const { out, depth } = queue.shift()!;
+    if (INTERACTIVE_ROLES.has(out.node.role)) out.ref = await assignRef(out.node, refs);
+    if (depth < maxDepth) queue.push(...out.children.map(child => ({ out: child, depth: depth + 1 })));
+  }
+
+  return formatNode(tree, 0, maxDepth);
+};
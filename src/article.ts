@@ -0,0 +1,41 @@
+import { Readability } from '@mozilla/readability';
+import { JSDOM } from 'jsdom';
+import { htmlToMarkdown } from './markdown.js';
+
+export interface ArticleResult {
+  title: string | null;
+  byline: string | null;
+  siteName: string | null;
+  publishedTime: string | null;
+  excerpt: string | null;
+  lang: string | null;
+  /** Clean article body as Markdown */
+  markdown: string;
+}
+
+// Runs Readability over a rendered HTML document and returns the main article as Markdown.
+// Returns null when Readability cannot find an article-like block on the page.
+export const extractArticle = (html: string, url: string): ArticleResult | null => {
+  const dom = new JSDOM(html, { url });
+  try {
+    const article = new Readability(dom.window.document).parse();
+    if (!article || !article.content) return null;
+
+    // Readability returns serialized HTML; re-parse it against the page URL so relative links resolve.
+    const contentDom = new JSDOM(`<body>${article.content}</body>`, { url });
+    const markdown = htmlToMarkdown(contentDom.window.document.body);
+    contentDom.window.close();
+
+    return {
+      title: article.title || null,
+      byline: article.byline || null,
+      siteName: article.siteName || null,
+      publishedTime: article.publishedTime || null,
+      excerpt: article.excerpt || null,
+      lang: article.lang || null,
+      markdown
+    };
+  } finally {
+    dom.window.close();
+  }
+};
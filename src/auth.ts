@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PROJECT_ROOT } from './paths.js';
+
+// Named auth profiles shared by fetch_api, download_file, parse_document and
+// browser pages. Profiles come from auth-profiles.json in the project root (or
+// the file named by WEB_CURL_AUTH_FILE) and from the WEB_CURL_AUTH_PROFILES
+// environment variable (JSON, same shape). String values may reference
+// environment variables as "${NAME}" so secrets stay out of the file.
+
+export type AuthProfile =
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'apiKey'; name: string; value: string; in?: 'header' | 'query' }
+  | {
+    type: 'oauth2';
+    tokenUrl: string;
+    clientId: string;
+    clientSecret: string;
+    scope?: string;
+    audience?: string;
+    /** How client credentials are sent to the token endpoint (default "body") */
+    clientAuth?: 'body' | 'basic';
+  }
+  | { type: 'cookies'; cookies?: JarCookie[]; cookieFile?: string };
+
+export interface JarCookie {
+  name: string;
+  value: string;
+  /** Cookie domain; a leading dot or bare domain also matches subdomains */
+  domain?: string;
+  path?: string;
+}
+
+export interface ResolvedAuth {
+  profile: string;
+  type: AuthProfile['type'];
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  cookies: JarCookie[];
+  basic?: { username: string; password: string };
+}
+
+interface CachedToken {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number;
+}
+
+// OAuth2 tokens per profile, reused until shortly before they expire
+const tokenCache: Map<string, CachedToken> = new Map();
+
+const substituteEnv = (value: any): any => {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, name) => {
+      if (process.env[name] === undefined) throw new Error(`Environment variable ${name} is not set`);
+      return process.env[name]!;
+    });
+  }
+  if (Array.isArray(value)) return value.map(substituteEnv);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substituteEnv(v)]));
+  }
+  return value;
+};
+
+const profileError = (profile: any): string | null => {
+  if (typeof profile !== 'object' || profile === null) return 'must be an object';
+  const has = (...keys: string[]) => keys.every(k => typeof profile[k] === 'string' && profile[k]);
+  switch (profile.type) {
+    case 'bearer': return has('token') ? null : 'bearer profiles need "token"';
+    case 'basic': return has('username') && typeof profile.password === 'string' ? null : 'basic profiles need "username" and "password"';
+    case 'apiKey':
+      if (!has('name', 'value')) return 'apiKey profiles need "name" and "value"';
+      return profile.in === undefined || ['header', 'query'].includes(profile.in) ? null : 'apiKey "in" must be "header" or "query"';
+    case 'oauth2': return has('tokenUrl', 'clientId', 'clientSecret') ? null : 'oauth2 profiles need "tokenUrl", "clientId" and "clientSecret"';
+    case 'cookies': return Array.isArray(profile.cookies) || typeof profile.cookieFile === 'string' ? null : 'cookies profiles need "cookies" or "cookieFile"';
+    default: return `unknown type "${profile.type}" (expected bearer, basic, apiKey, oauth2 or cookies)`;
+  }
+};
+
+/** Reads all profiles (file first, then WEB_CURL_AUTH_PROFILES overrides). Re-read on every call so edits apply immediately. */
+export const loadAuthProfiles = (): Record<string, AuthProfile> => {
+  const file = process.env.WEB_CURL_AUTH_FILE
+    ? path.resolve(PROJECT_ROOT, process.env.WEB_CURL_AUTH_FILE)
+    : path.join(PROJECT_ROOT, 'auth-profiles.json');
+  let profiles: Record<string, any> = {};
+  if (fs.existsSync(file)) {
+    try {
+      profiles = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e: any) {
+      throw new Error(`Could not parse auth profiles file ${file}: ${e.message}`);
+    }
+  }
+  if (process.env.WEB_CURL_AUTH_PROFILES) {
+    try {
+      profiles = { ...profiles, ...JSON.parse(process.env.WEB_CURL_AUTH_PROFILES) };
+    } catch (e: any) {
+      throw new Error(`Could not parse WEB_CURL_AUTH_PROFILES: ${e.message}`);
+    }
+  }
+  return profiles;
+};
+
+const getProfile = (name: string): AuthProfile => {
+  const profiles = loadAuthProfiles();
+  if (!Object.prototype.hasOwnProperty.call(profiles, name)) {
+    const known = Object.keys(profiles);
+    throw new Error(`Unknown auth profile "${name}"${known.length ? ` (available: ${known.join(', ')})` : ': no profiles configured'}`);
+  }
+  const error = profileError(profiles[name]);
+  if (error) throw new Error(`Auth profile "${name}" ${error}`);
+  return substituteEnv(profiles[name]);
+};
+
+// Parses a cookie file: a JSON array, a storageState-like { cookies: [...] }, or Netscape cookies.txt
+const readCookieFile = (file: string): JarCookie[] => {
+  const filePath = path.isAbsolute(file) ? file : path.resolve(PROJECT_ROOT, file);
+  if (!fs.existsSync(filePath)) throw new Error(`Cookie file not found: ${filePath}`);
+  const text = fs.readFileSync(filePath, 'utf8');
+  if (/^\s*[[{]/.test(text)) {
+    const data = JSON.parse(text);
+    const list = Array.isArray(data) ? data : data.cookies;
+    if (!Array.isArray(list)) throw new Error(`Cookie file ${filePath} has no cookies array`);
+    return list.map((c: any) => ({ name: c.name, value: c.value, domain: c.domain, path: c.path }));
+  }
+  return text.split('\n')
+    .map(line => line.replace(/^#HttpOnly_/, ''))
+    .filter(line => line.trim() && !line.startsWith('#'))
+    .map(line => line.split('\t'))
+    .filter(parts => parts.length >= 7)
+    .map(([domain, , cookiePath, , , name, value]) => ({ name, value: value.trim(), domain, path: cookiePath }));
+};
+
+const requestToken = async (name: string, profile: Extract<AuthProfile, { type: 'oauth2' }>, refreshToken?: string): Promise<CachedToken> => {
+  const params = new URLSearchParams();
+  if (refreshToken) {
+    params.set('grant_type', 'refresh_token');
+    params.set('refresh_token', refreshToken);
+  } else {
+    params.set('grant_type', 'client_credentials');
+    if (profile.scope) params.set('scope', profile.scope);
+    if (profile.audience) params.set('audience', profile.audience);
+  }
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+  if (profile.clientAuth === 'basic') {
+    headers.Authorization = `Basic ${Buffer.from(`${encodeURIComponent(profile.clientId)}:${encodeURIComponent(profile.clientSecret)}`).toString('base64')}`;
+  } else {
+    params.set('client_id', profile.clientId);
+    params.set('client_secret', profile.clientSecret);
+  }
+
+  const response = await fetch(profile.tokenUrl, { method: 'POST', headers, body: params.toString() });
+  const data = await response.json().catch(() => ({})) as any;
+  if (!response.ok || typeof data.access_token !== 'string') {
+    const reason = data.error_description || data.error || `${response.status} ${response.statusText}`;
+    throw new Error(`OAuth2 token request for profile "${name}" failed: ${reason}`);
+  }
+  const expiresIn = typeof data.expires_in === 'number' ? data.expires_in : Number(data.expires_in) || 3600;
+  return {
+    accessToken: data.access_token,
+    refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : refreshToken,
+    expiresAt: Date.now() + expiresIn * 1000
+  };
+};
+
+const getAccessToken = async (name: string, profile: Extract<AuthProfile, { type: 'oauth2' }>): Promise<string> => {
+  const cached = tokenCache.get(name);
+  // Refresh a minute early so a token never expires mid-request
+  if (cached && cached.expiresAt - 60000 > Date.now()) return cached.accessToken;
+
+  let token: CachedToken | null = null;
+  if (cached?.refreshToken) {
+    token = await requestToken(name, profile, cached.refreshToken).catch(() => null);
+  }
+  token ??= await requestToken(name, profile);
+  tokenCache.set(name, token);
+  return token.accessToken;
+};
+
+/** Drops a cached OAuth2 token, e.g. after the API rejected it with 401. */
+export const invalidateAuthToken = (name: string) => {
+  tokenCache.delete(name);
+};
+
+/** Resolves a profile into the headers, query parameters, cookies and basic credentials to send. */
+export const resolveAuth = async (name: string): Promise<ResolvedAuth> => {
+  const profile = getProfile(name);
+  const auth: ResolvedAuth = { profile: name, type: profile.type, headers: {}, query: {}, cookies: [] };
+  switch (profile.type) {
+    case 'bearer':
+      auth.headers.Authorization = `Bearer ${profile.token}`;
+      break;
+    case 'basic':
+      auth.headers.Authorization = `Basic ${Buffer.from(`${profile.username}:${profile.password}`).toString('base64')}`;
+      auth.basic = { username: profile.username, password: profile.password };
+      break;
+    case 'apiKey':
+      if (profile.in === 'query') auth.query[profile.name] = profile.value;
+      else auth.headers[profile.name] = profile.value;
+      break;
+    case 'oauth2':
+      auth.headers.Authorization = `Bearer ${await getAccessToken(name, profile)}`;
+      break;
+    case 'cookies':
+      auth.cookies = [...(profile.cookies || []), ...(profile.cookieFile ? readCookieFile(profile.cookieFile) : [])];
+      break;
+  }
+  return auth;
+};
+
+const cookieApplies = (cookie: JarCookie, url: URL): boolean => {
+  if (cookie.domain) {
+    const domain = cookie.domain.replace(/^\./, '').toLowerCase();
+    const host = url.hostname.toLowerCase();
+    if (host !== domain && !host.endsWith(`.${domain}`)) return false;
+  }
+  const cookiePath = cookie.path || '/';
+  return url.pathname === cookiePath || url.pathname.startsWith(cookiePath.endsWith('/') ? cookiePath : `${cookiePath}/`);
+};
+
+/**
+ * Applies resolved auth to a plain HTTP request: returns the URL with query
+ * credentials and the merged headers. Explicit headers win over the profile.
+ */
+export const applyAuth = (url: string, auth: ResolvedAuth | null, headers: Record<string, string> = {}) => {
+  if (!auth) return { url, headers };
+  const target = new URL(url);
+  for (const [key, value] of Object.entries(auth.query)) target.searchParams.set(key, value);
+
+  const merged: Record<string, string> = { ...auth.headers };
+  const cookies = auth.cookies.filter(c => cookieApplies(c, target));
+  if (cookies.length > 0) merged.Cookie = cookies.map(c => `${c.name}=${c.value}`).join('; ');
+  for (const [key, value] of Object.entries(headers)) {
+    // Case-insensitive override so a caller's "authorization" replaces the profile's "Authorization"
+    for (const existing of Object.keys(merged)) {
+      if (existing.toLowerCase() === key.toLowerCase()) delete merged[existing];
+    }
+    merged[key] = value;
+  }
+  return { url: target.toString(), headers: merged };
+};
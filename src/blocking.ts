@@ -0,0 +1,107 @@
+// Request blocking policy for browser pages (resource types, URL patterns, ad/tracker lists)
+
+export interface BlockingPolicy {
+  /** Puppeteer resource types to block, e.g. image, font, media, stylesheet */
+  resourceTypes?: string[];
+  /** URL globs (`*` wildcard, e.g. "*://*.example.com/ads/*") or /regex/flags */
+  urlPatterns?: string[];
+  /** Block requests to the built-in ad network domain list */
+  blockAds?: boolean;
+  /** Block requests to the built-in analytics/tracker domain list */
+  blockTrackers?: boolean;
+}
+
+export interface BlockingStats {
+  total: number;
+  blocked: number;
+  /** Blocked request counts keyed by reason (e.g. "resourceType:image", "ads", "pattern:*://*.cdn/*") */
+  byReason: Record<string, number>;
+  /** Most recent blocked URLs (last 50) */
+  recentBlocked: Array<{ url: string; reason: string }>;
+}
+
+const RESOURCE_TYPES = [
+  'document', 'stylesheet', 'image', 'media', 'font', 'script', 'texttrack', 'xhr', 'fetch', 'prefetch',
+  'eventsource', 'websocket', 'manifest', 'signedexchange', 'ping', 'cspviolationreport', 'preflight', 'other'
+];
+
+export const AD_DOMAINS = [
+  'doubleclick.net', 'googlesyndication.com', 'googleadservices.com', 'adservice.google.com', 'adnxs.com',
+  'adsrvr.org', 'advertising.com', 'amazon-adsystem.com', 'criteo.com', 'criteo.net', 'outbrain.com',
+  'taboola.com', 'pubmatic.com', 'rubiconproject.com', 'openx.net', 'casalemedia.com', 'moatads.com',
+  'adform.net', 'smartadserver.com', 'yieldmo.com', 'media.net', 'revcontent.com', 'zedo.com',
+  'serving-sys.com', 'sharethrough.com', 'teads.tv', '33across.com', 'adroll.com', 'bidswitch.net'
+];
+
+export const TRACKER_DOMAINS = [
+  'google-analytics.com', 'googletagmanager.com', 'analytics.google.com', 'stats.g.doubleclick.net',
+  'connect.facebook.net', 'facebook.com/tr', 'hotjar.com', 'hotjar.io', 'segment.io', 'segment.com',
+  'mixpanel.com', 'amplitude.com', 'fullstory.com', 'clarity.ms', 'newrelic.com', 'nr-data.net',
+  'scorecardresearch.com', 'quantserve.com', 'chartbeat.com', 'chartbeat.net', 'mouseflow.com',
+  'crazyegg.com', 'optimizely.com', 'heapanalytics.com', 'bat.bing.com', 'snap.licdn.com',
+  'static.ads-twitter.com', 'analytics.tiktok.com', 'branch.io', 'intercomcdn.com', 'sentry.io'
+];
+
+/** Compiles a URL glob (`*` wildcard) or a /regex/flags string into a RegExp. */
+export const compileUrlPattern = (pattern: string): RegExp => {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) return new RegExp(regex[1], regex[2]);
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+};
+
+// Entries may carry a path prefix ("facebook.com/tr"); domains also match their subdomains
+const matchesDomainList = (url: URL, list: string[]): boolean => {
+  const host = url.hostname.toLowerCase();
+  return list.some(entry => {
+    const [domain, ...rest] = entry.split('/');
+    const prefix = rest.length > 0 ? `/${rest.join('/')}` : '';
+    if (host !== domain && !host.endsWith(`.${domain}`)) return false;
+    return !prefix || url.pathname === prefix || url.pathname.startsWith(`${prefix}/`);
+  });
+};
+
+export const isValidBlockingPolicy = (policy: any): policy is BlockingPolicy => {
+  if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) return false;
+  if (policy.resourceTypes !== undefined &&
+    (!Array.isArray(policy.resourceTypes) || !policy.resourceTypes.every((t: any) => RESOURCE_TYPES.includes(t)))) return false;
+  if (policy.urlPatterns !== undefined &&
+    (!Array.isArray(policy.urlPatterns) || !policy.urlPatterns.every((p: any) => typeof p === 'string'))) return false;
+  if (policy.blockAds !== undefined && typeof policy.blockAds !== 'boolean') return false;
+  if (policy.blockTrackers !== undefined && typeof policy.blockTrackers !== 'boolean') return false;
+  return true;
+};
+
+/**
+ * Returns a matcher that yields the block reason for a request, or null to let it through.
+ * Throws on invalid regex patterns so configuration errors surface immediately.
+ */
+export const createBlockingMatcher = (policy: BlockingPolicy) => {
+  const types = new Set(policy.resourceTypes || []);
+  const patterns = (policy.urlPatterns || []).map(p => ({ source: p, regex: compileUrlPattern(p) }));
+
+  return (url: string, resourceType: string): string | null => {
+    if (url.startsWith('data:') || url.startsWith('blob:')) return null;
+    if (types.has(resourceType)) return `resourceType:${resourceType}`;
+
+    let parsed: URL | null = null;
+    try { parsed = new URL(url); } catch (e) {}
+    if (parsed && policy.blockAds && matchesDomainList(parsed, AD_DOMAINS)) return 'ads';
+    if (parsed && policy.blockTrackers && matchesDomainList(parsed, TRACKER_DOMAINS)) return 'trackers';
+
+    const pattern = patterns.find(p => p.regex.test(url));
+    if (pattern) return `pattern:${pattern.source}`;
+    return null;
+  };
+};
+
+export const createBlockingStats = (): BlockingStats => ({ total: 0, blocked: 0, byReason: {}, recentBlocked: [] });
+
+export const recordBlockingResult = (stats: BlockingStats, url: string, reason: string | null) => {
+  stats.total++;
+  if (!reason) return;
+  stats.blocked++;
+  stats.byReason[reason] = (stats.byReason[reason] || 0) + 1;
+  stats.recentBlocked.push({ url, reason });
+  if (stats.recentBlocked.length > 50) stats.recentBlocked.shift();
+};
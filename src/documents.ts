@@ -0,0 +1,554 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { strFromU8, unzipSync } from 'fflate';
+import { JSDOM } from 'jsdom';
+import { PDFParse } from 'pdf-parse';
+import { extractArticle } from './article.js';
+import { applyAuth, resolveAuth } from './auth.js';
+import { htmlToMarkdown } from './markdown.js';
+import { PROJECT_ROOT } from './paths.js';
+import { detectCharset, sniffMime } from './response-body.js';
+import { fetchWithRetry } from './retry.js';
+
+// Document parsing for parse_document: loads a URL or local file, detects the
+// format from magic bytes, content type and extension, and converts it to
+// Markdown/text with basic metadata. DOCX/XLSX/PPTX/EPUB are zip containers of
+// XML, read with fflate and the JSDOM XML parser.
+
+export type DocumentFormat = 'pdf' | 'docx' | 'xlsx' | 'pptx' | 'epub' | 'csv' | 'html' | 'text';
+
+export const DOCUMENT_FORMATS: DocumentFormat[] = ['pdf', 'docx', 'xlsx', 'pptx', 'epub', 'csv', 'html', 'text'];
+
+export interface ParseDocumentArgs {
+  /** http(s) URL, file:// URL, or local path (relative paths resolve against the project root) */
+  url: string;
+  /** Auth profile for URLs (see auth.ts) */
+  profile?: string;
+  /** Skip detection and parse as this format */
+  format?: DocumentFormat;
+  /** Maximum rows rendered per sheet for XLSX/CSV (default 500) */
+  maxRows?: number;
+  /** Download timeout in milliseconds (default 60000) */
+  timeout?: number;
+}
+
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  pages?: number;
+  sheets?: number;
+  sheetNames?: string[];
+  slides?: number;
+  chapters?: number;
+  language?: string;
+  created?: string;
+  modified?: string;
+  /** Rows left out because of maxRows */
+  omittedRows?: number;
+}
+
+export interface ParsedDocument {
+  source: string;
+  format: DocumentFormat;
+  contentType: string | null;
+  size: number;
+  metadata: DocumentMetadata;
+  /** Markdown (or plain text for pdf/text) */
+  content: string;
+}
+
+const MAX_DOCUMENT_BYTES = 100 * 1024 * 1024;
+// Inflated size of the XML parts read from a DOCX/XLSX/PPTX/EPUB container (zip bomb guard)
+const MAX_UNZIPPED_BYTES = 200 * 1024 * 1024;
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'application/epub+zip': 'epub',
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'csv',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html'
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  '.pdf': 'pdf', '.docx': 'docx', '.xlsx': 'xlsx', '.pptx': 'pptx', '.epub': 'epub',
+  '.csv': 'csv', '.tsv': 'csv', '.html': 'html', '.htm': 'html', '.xhtml': 'html'
+};
+
+export const isValidParseDocumentArgs = (args: any): args is ParseDocumentArgs => {
+  if (typeof args !== 'object' || args === null) return false;
+  if (typeof args.url !== 'string' || !args.url) return false;
+  if (args.profile !== undefined && typeof args.profile !== 'string') return false;
+  if (args.format !== undefined && !DOCUMENT_FORMATS.includes(args.format)) return false;
+  if (args.maxRows !== undefined && !(Number.isInteger(args.maxRows) && args.maxRows > 0)) return false;
+  if (args.timeout !== undefined && typeof args.timeout !== 'number') return false;
+  return true;
+};
+
+const loadSource = async (args: ParseDocumentArgs): Promise<{ bytes: Uint8Array; contentType: string | null; name: string }> => {
+  if (/^https?:\/\//i.test(args.url)) {
+    const request = applyAuth(args.url, args.profile ? await resolveAuth(args.profile) : null);
+    const { response } = await fetchWithRetry(request.url, { headers: request.headers }, {}, args.timeout ?? 60000);
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => {});
+      throw new Error(`Failed to fetch document: HTTP ${response.status} ${response.statusText}`);
+    }
+    const declared = Number(response.headers.get('content-length'));
+    if (declared > MAX_DOCUMENT_BYTES) {
+      await response.body?.cancel().catch(() => {});
+      throw new Error(`Document is too large (${declared} bytes, limit ${MAX_DOCUMENT_BYTES})`);
+    }
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length > MAX_DOCUMENT_BYTES) throw new Error(`Document is too large (over ${MAX_DOCUMENT_BYTES} bytes)`);
+    return { bytes, contentType: response.headers.get('content-type'), name: new URL(response.url || request.url).pathname };
+  }
+
+  const filePath = args.url.startsWith('file://') ? fileURLToPath(args.url) : path.isAbsolute(args.url) ? args.url : path.resolve(PROJECT_ROOT, args.url);
+  const stat = await fs.promises.stat(filePath).catch(() => null);
+  if (!stat || !stat.isFile()) throw new Error(`File not found: ${filePath}`);
+  if (stat.size > MAX_DOCUMENT_BYTES) throw new Error(`Document is too large (${stat.size} bytes, limit ${MAX_DOCUMENT_BYTES})`);
+  return { bytes: new Uint8Array(await fs.promises.readFile(filePath)), contentType: null, name: filePath };
+};
+
+const looksLikeHtml = (bytes: Uint8Array) => /^(\u00ef\u00bb\u00bf)?\s*(<!doctype html|<html|<head|<body)/i.test(Buffer.from(bytes.subarray(0, 1024)).toString('latin1'));
+
+/**
+ * Works out the document format. Magic bytes win over the declared content
+ * type (servers often send application/octet-stream); zip containers are told
+ * apart by their entries.
+ */
+export const detectFormat = (bytes: Uint8Array, contentType: string | null, name: string): DocumentFormat => {
+  const sniffed = sniffMime(bytes);
+  if (sniffed === 'application/pdf') return 'pdf';
+  if (sniffed === 'application/zip') {
+    const names = new Set<string>();
+    unzipSync(bytes, { filter: file => { names.add(file.name); return false; } });
+    if (names.has('word/document.xml')) return 'docx';
+    if (names.has('xl/workbook.xml')) return 'xlsx';
+    if (names.has('ppt/presentation.xml')) return 'pptx';
+    if (names.has('META-INF/container.xml')) return 'epub';
+    throw new Error('Unsupported zip document: expected DOCX, XLSX, PPTX or EPUB');
+  }
+  if (sniffed === 'application/x-ole-storage') throw new Error('Legacy Office formats (.doc, .xls, .ppt) are not supported; save as DOCX/XLSX/PPTX');
+  if (sniffed) throw new Error(`Unsupported document type: ${sniffed}`);
+
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (MIME_FORMATS[type]) return MIME_FORMATS[type];
+  const byExtension = EXTENSION_FORMATS[path.extname(name).toLowerCase()];
+  if (byExtension) return byExtension;
+  if (looksLikeHtml(bytes)) return 'html';
+  if (bytes.includes(0)) throw new Error(`Unsupported binary document${type ? ` (${type})` : ''}`);
+  return 'text';
+};
+
+const decodeText = (bytes: Uint8Array, contentType: string | null) => {
+  const charset = detectCharset(contentType, bytes.subarray(0, 1024));
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch (e) {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+
+/** Renders rows as a Markdown table, using the first row as the header. */
+const markdownTable = (rows: string[][]): string => {
+  const width = Math.max(...rows.map(r => r.length), 1);
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => escapeCell(row[i] ?? '')).join(' | ')} |`;
+  return [line(rows[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.slice(1).map(line)].join('\n');
+};
+
+// Zip/XML access shared by the Office and EPUB parsers
+
+type ZipEntries = Record<string, Uint8Array>;
+
+class XmlReader {
+  private readonly dom = new JSDOM('');
+
+  constructor(private readonly entries: ZipEntries) {}
+
+  has(name: string) {
+    return name in this.entries;
+  }
+
+  text(name: string): string | null {
+    return this.entries[name] ? strFromU8(this.entries[name]) : null;
+  }
+
+  xml(name: string): Document | null {
+    const text = this.text(name);
+    return text === null ? null : new this.dom.window.DOMParser().parseFromString(text, 'application/xml') as unknown as Document;
+  }
+
+  /** Relationship id → zip path for the part at `name` (e.g. word/document.xml → word/_rels/document.xml.rels) */
+  rels(name: string): Map<string, { target: string; type: string }> {
+    const relsPath = path.posix.join(path.posix.dirname(name), '_rels', `${path.posix.basename(name)}.rels`);
+    const doc = this.xml(relsPath);
+    const map = new Map<string, { target: string; type: string }>();
+    if (!doc) return map;
+    for (const rel of byName(doc, 'Relationship')) {
+      if (rel.getAttribute('TargetMode') === 'External') continue;
+      const target = rel.getAttribute('Target') || '';
+      map.set(rel.getAttribute('Id') || '', {
+        target: target.startsWith('/') ? target.substring(1) : path.posix.normalize(path.posix.join(path.posix.dirname(name), target)),
+        type: rel.getAttribute('Type') || ''
+      });
+    }
+    return map;
+  }
+
+  close() {
+    this.dom.window.close();
+  }
+}
+
+const byName = (root: Document | Element, localName: string): Element[] => Array.from(root.getElementsByTagNameNS('*', localName));
+
+const childrenNamed = (el: Element, localName: string): Element[] => Array.from(el.children).filter(c => c.localName === localName);
+
+const firstText = (root: Document | Element, localName: string) => byName(root, localName)[0]?.textContent?.trim() || undefined;
+
+/** title/author/dates from docProps/core.xml, shared by DOCX, XLSX and PPTX */
+const officeCoreMetadata = (reader: XmlReader): DocumentMetadata => {
+  const core = reader.xml('docProps/core.xml');
+  if (!core) return {};
+  const meta: DocumentMetadata = {
+    title: firstText(core, 'title'),
+    author: firstText(core, 'creator'),
+    created: firstText(core, 'created'),
+    modified: firstText(core, 'modified')
+  };
+  return Object.fromEntries(Object.entries(meta).filter(([, v]) => v !== undefined));
+};
+
+// DOCX: paragraphs (headings, list items) and tables from word/document.xml
+
+const docxRunText = (el: Element): string => {
+  let text = '';
+  for (const node of Array.from(el.getElementsByTagNameNS('*', '*'))) {
+    if (node.localName === 't') text += node.textContent || '';
+    else if (node.localName === 'tab') text += '\t';
+    else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+  }
+  return text;
+};
+
+const docxParagraph = (p: Element): string => {
+  const text = docxRunText(p).trim();
+  if (!text) return '';
+  const style = byName(p, 'pStyle')[0]?.getAttribute('w:val') || '';
+  const heading = style.match(/^Heading\s?(\d)$/i);
+  if (/^Title$/i.test(style)) return `# ${text}`;
+  if (heading) return `${'#'.repeat(Math.min(6, Number(heading[1])))} ${text}`;
+  if (byName(p, 'numPr').length > 0) return `- ${text}`;
+  return text;
+};
+
+const parseDocx = (reader: XmlReader) => {
+  const doc = reader.xml('word/document.xml');
+  const body = doc && byName(doc, 'body')[0];
+  if (!body) throw new Error('Invalid DOCX: word/document.xml has no body');
+
+  const blocks: string[] = [];
+  for (const el of Array.from(body.children)) {
+    if (el.localName === 'p') {
+      const block = docxParagraph(el);
+      if (block) blocks.push(block);
+    } else if (el.localName === 'tbl') {
+      const rows = childrenNamed(el, 'tr').map(tr => childrenNamed(tr, 'tc').map(tc => childrenNamed(tc, 'p').map(docxRunText).join(' ')));
+      if (rows.length > 0) blocks.push(markdownTable(rows));
+    } else if (el.localName === 'sdt') {
+      // Content controls (e.g. a table of contents) wrap ordinary paragraphs
+      for (const p of byName(el, 'p')) {
+        const block = docxParagraph(p);
+        if (block) blocks.push(block);
+      }
+    }
+  }
+
+  const app = reader.xml('docProps/app.xml');
+  const pages = app ? Number(firstText(app, 'Pages')) : NaN;
+  return { content: blocks.join('\n\n'), metadata: { ...officeCoreMetadata(reader), ...(pages > 0 ? { pages } : {}) } };
+};
+
+// XLSX: one Markdown table per sheet, strings resolved from the shared string table
+
+const columnIndex = (ref: string) => {
+  let index = 0;
+  for (const ch of ref.replace(/\d+$/, '').toUpperCase()) index = index * 26 + ch.charCodeAt(0) - 64;
+  return index - 1;
+};
+
+const parseXlsx = (reader: XmlReader, maxRows: number) => {
+  const workbook = reader.xml('xl/workbook.xml');
+  if (!workbook) throw new Error('Invalid XLSX: missing xl/workbook.xml');
+  const rels = reader.rels('xl/workbook.xml');
+  const sharedDoc = reader.xml('xl/sharedStrings.xml');
+  // Rich-text strings are split into runs; concatenating every <t> rebuilds them
+  const shared = sharedDoc ? byName(sharedDoc, 'si').map(si => byName(si, 't').map(t => t.textContent || '').join('')) : [];
+
+  const sections: string[] = [];
+  const sheetNames: string[] = [];
+  let omittedRows = 0;
+  for (const sheet of byName(workbook, 'sheet')) {
+    const name = sheet.getAttribute('name') || `Sheet${sheetNames.length + 1}`;
+    sheetNames.push(name);
+    const rel = rels.get(sheet.getAttribute('r:id') || '');
+    const doc = rel && reader.xml(rel.target);
+    if (!doc) continue;
+
+    const rows: string[][] = [];
+    for (const row of byName(doc, 'row')) {
+      if (rows.length >= maxRows) {
+        omittedRows++;
+        continue;
+      }
+      const cells: string[] = [];
+      childrenNamed(row, 'c').forEach((c, i) => {
+        const ref = c.getAttribute('r');
+        const col = ref ? columnIndex(ref) : i;
+        const type = c.getAttribute('t');
+        const value = childrenNamed(c, 'v')[0]?.textContent ?? '';
+        let text: string;
+        if (type === 's') text = shared[Number(value)] ?? '';
+        else if (type === 'inlineStr') text = byName(c, 't').map(t => t.textContent || '').join('');
+        else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+        else text = value;
+        cells[col] = text;
+      });
+      rows.push(Array.from(cells, cell => cell ?? ''));
+    }
+    // Drop trailing empty rows that only carry formatting
+    while (rows.length > 0 && rows[rows.length - 1].every(cell => !cell)) rows.pop();
+    sections.push(`## ${name}\n\n${rows.length > 0 ? markdownTable(rows) : '_(empty)_'}`);
+  }
+
+  return {
+    content: sections.join('\n\n'),
+    metadata: { ...officeCoreMetadata(reader), sheets: sheetNames.length, sheetNames, ...(omittedRows ? { omittedRows } : {}) }
+  };
+};
+
+// CSV/TSV
+
+/** RFC 4180 parsing with quoted fields; the delimiter is picked from the first line (comma, semicolon or tab). */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell !== ''));
+};
+
+const parseCsvDocument = (text: string, maxRows: number) => {
+  const rows = parseCsv(text);
+  const omittedRows = Math.max(0, rows.length - maxRows);
+  return {
+    content: rows.length > 0 ? markdownTable(rows.slice(0, maxRows)) : '',
+    metadata: omittedRows ? { omittedRows } : {}
+  };
+};
+
+// PPTX: slide text in presentation order, with speaker notes
+
+const paragraphsOf = (root: Element | Document) =>
+  byName(root, 'p').filter(p => p.namespaceURI?.includes('drawingml')).map(p => docxRunText(p).trim()).filter(Boolean);
+
+const placeholderType = (shape: Element) => byName(shape, 'ph')[0]?.getAttribute('type') || null;
+
+const parsePptx = (reader: XmlReader) => {
+  const presentation = reader.xml('ppt/presentation.xml');
+  if (!presentation) throw new Error('Invalid PPTX: missing ppt/presentation.xml');
+  const rels = reader.rels('ppt/presentation.xml');
+  const slidePaths = byName(presentation, 'sldId').map(s => rels.get(s.getAttribute('r:id') || '')?.target).filter((p): p is string => !!p);
+
+  const sections = slidePaths.map((slidePath, i) => {
+    const slide = reader.xml(slidePath);
+    if (!slide) return `## Slide ${i + 1}`;
+    let title = '';
+    const body: string[] = [];
+    for (const shape of byName(slide, 'sp')) {
+      const type = placeholderType(shape);
+      const paragraphs = paragraphsOf(shape);
+      if (!title && (type === 'title' || type === 'ctrTitle')) title = paragraphs.join(' ');
+      else body.push(...paragraphs);
+    }
+    for (const table of byName(slide, 'tbl')) {
+      const rows = byName(table, 'tr').map(tr => byName(tr, 'tc').map(tc => paragraphsOf(tc).join(' ')));
+      if (rows.length > 0) body.push(markdownTable(rows));
+    }
+
+    const notesRel = Array.from(reader.rels(slidePath).values()).find(rel => rel.type.endsWith('/notesSlide'));
+    const notesDoc = notesRel && reader.xml(notesRel.target);
+    // Only the body placeholder holds the speaker notes; the others are slide image and number
+    const notes = notesDoc ? byName(notesDoc, 'sp').filter(sp => placeholderType(sp) === 'body').flatMap(paragraphsOf) : [];
+
+    return [
+      `## Slide ${i + 1}${title ? `: ${title}` : ''}`,
+      ...(body.length ? [body.join('\n\n')] : []),
+      ...(notes.length ? [`**Notes:** ${notes.join('\n')}`] : [])
+    ].join('\n\n');
+  });
+
+  return { content: sections.join('\n\n'), metadata: { ...officeCoreMetadata(reader), slides: slidePaths.length } };
+};
+
+// EPUB: spine documents in reading order, one chapter each
+
+const parseEpub = (reader: XmlReader) => {
+  const container = reader.xml('META-INF/container.xml');
+  const opfPath = container && byName(container, 'rootfile')[0]?.getAttribute('full-path');
+  const opf = opfPath ? reader.xml(opfPath) : null;
+  if (!opfPath || !opf) throw new Error('Invalid EPUB: no package document');
+  const base = path.posix.dirname(opfPath);
+
+  const manifest = new Map<string, { href: string; type: string }>();
+  for (const item of byName(opf, 'item')) {
+    manifest.set(item.getAttribute('id') || '', { href: item.getAttribute('href') || '', type: item.getAttribute('media-type') || '' });
+  }
+
+  const chapters: string[] = [];
+  for (const ref of byName(opf, 'itemref')) {
+    const item = manifest.get(ref.getAttribute('idref') || '');
+    if (!item || !/html/.test(item.type)) continue;
+    const html = reader.text(path.posix.normalize(path.posix.join(base, decodeURIComponent(item.href))));
+    if (!html) continue;
+    let dom: JSDOM;
+    try {
+      dom = new JSDOM(html, { contentType: 'application/xhtml+xml' });
+    } catch (e) {
+      // Not well-formed XHTML: the HTML parser is more forgiving
+      dom = new JSDOM(html);
+    }
+    try {
+      const markdown = htmlToMarkdown(dom.window.document.body).trim();
+      if (markdown) chapters.push(markdown);
+    } finally {
+      dom.window.close();
+    }
+  }
+
+  const metadata: DocumentMetadata = { chapters: chapters.length };
+  const title = firstText(opf, 'title');
+  const author = firstText(opf, 'creator');
+  const language = firstText(opf, 'language');
+  if (title) metadata.title = title;
+  if (author) metadata.author = author;
+  if (language) metadata.language = language;
+  return { content: chapters.join('\n\n---\n\n'), metadata };
+};
+
+// PDF and HTML
+
+const parsePdf = async (bytes: Uint8Array) => {
+  const parser = new PDFParse({ data: bytes });
+  try {
+    const info = await parser.getInfo();
+    const text = await parser.getText();
+    const metadata: DocumentMetadata = { pages: text.total };
+    if (info.info?.Title) metadata.title = String(info.info.Title);
+    if (info.info?.Author) metadata.author = String(info.info.Author);
+    return { content: text.text, metadata };
+  } finally {
+    await parser.destroy();
+  }
+};
+
+const parseHtml = (html: string, url: string) => {
+  const article = extractArticle(html, url);
+  if (article) {
+    const metadata: DocumentMetadata = {};
+    if (article.title) metadata.title = article.title;
+    if (article.byline) metadata.author = article.byline;
+    if (article.lang) metadata.language = article.lang;
+    return { content: article.markdown, metadata };
+  }
+  // No article-like block (e.g. a data table page): convert the whole body
+  const dom = new JSDOM(html, { url });
+  try {
+    const title = dom.window.document.title.trim();
+    return { content: htmlToMarkdown(dom.window.document.body), metadata: title ? { title } : {} };
+  } finally {
+    dom.window.close();
+  }
+};
+
+/**
+ * Inflates the XML parts of an Office/EPUB container. Sizes come from the zip
+ * directory and bound the inflated output, so oversized parts are refused
+ * before anything is decompressed.
+ */
+const unzipParts = (bytes: Uint8Array) => {
+  let total = 0;
+  return unzipSync(bytes, {
+    filter: file => {
+      if (!/\.(xml|rels|x?html?|opf)$/i.test(file.name)) return false;
+      total += file.originalSize;
+      if (total > MAX_UNZIPPED_BYTES) throw new Error(`Document is too large once decompressed (over ${MAX_UNZIPPED_BYTES} bytes)`);
+      return true;
+    }
+  });
+};
+
+/** Loads a document from a URL or local path and converts it to Markdown/text with metadata. */
+export const parseDocument = async (args: ParseDocumentArgs): Promise<ParsedDocument> => {
+  const { bytes, contentType, name } = await loadSource(args);
+  const format = args.format ?? detectFormat(bytes, contentType, name);
+  const maxRows = args.maxRows ?? 500;
+  const baseUrl = /^https?:\/\//i.test(args.url) ? args.url : 'file:///';
+
+  let parsed: { content: string; metadata: DocumentMetadata };
+  if (format === 'pdf') {
+    parsed = await parsePdf(bytes);
+  } else if (format === 'docx' || format === 'xlsx' || format === 'pptx' || format === 'epub') {
+    const reader = new XmlReader(unzipParts(bytes));
+    try {
+      parsed = format === 'docx' ? parseDocx(reader)
+        : format === 'xlsx' ? parseXlsx(reader, maxRows)
+        : format === 'pptx' ? parsePptx(reader)
+        : parseEpub(reader);
+    } finally {
+      reader.close();
+    }
+  } else if (format === 'csv') {
+    parsed = parseCsvDocument(decodeText(bytes, contentType), maxRows);
+  } else if (format === 'html') {
+    parsed = parseHtml(decodeText(bytes, contentType), baseUrl);
+  } else {
+    parsed = { content: decodeText(bytes, contentType), metadata: {} };
+  }
+
+  return { source: args.url, format, contentType, size: bytes.length, ...parsed };
+};
@@ -0,0 +1,184 @@
+import { Frame } from 'puppeteer';
+import { installRefHelpers, RefFingerprint } from './refs.js';
+
+export type FormFieldValue = string | number | boolean | string[];
+
+export type FormFieldKind = 'text' | 'select' | 'checkbox' | 'radio' | 'value' | 'file' | 'contenteditable';
+
+export interface FormFieldMatch {
+  ref: string;
+  fingerprint: RefFingerprint;
+  kind: FormFieldKind;
+  /** Accessible label of the matched control */
+  label: string;
+  /** Which attribute matched the requested key (label, name, id, placeholder, group) */
+  matchedBy: string;
+  /** Input type or tag name */
+  type: string;
+  /** Match quality, compared across frames (exact label 100 … partial attribute match) */
+  score: number;
+}
+
+export interface FormFieldReport {
+  field: string;
+  status: 'set' | 'not_found' | 'error';
+  matched?: { label: string; matchedBy: string; type: string; ref: string };
+  value?: FormFieldValue;
+  error?: string;
+}
+
+/**
+ * Installs `window.__mcpForms` (requires `window.__mcpRefs`). Serialized by
+ * frame.evaluate(), so it must stay fully self-contained.
+ */
+export const installFormHelpers = () => {
+  const w = window as any;
+  if (w.__mcpForms) return;
+  const refs = w.__mcpRefs;
+
+  const norm = (s: string | null | undefined) => (s || '').toLowerCase().replace(/[*:]/g, '').replace(/\s+/g, ' ').trim();
+
+  const CONTROL_SELECTOR = [
+    'input:not([type=hidden])', 'select', 'textarea', '[contenteditable=""]', '[contenteditable="true"]',
+    '[role=textbox]', '[role=combobox]', '[role=checkbox]', '[role=radio]', '[role=switch]'
+  ].join(',');
+
+  const controls = (root: Document | ShadowRoot): Element[] => {
+    const out: Element[] = Array.from(root.querySelectorAll(CONTROL_SELECTOR));
+    root.querySelectorAll('*').forEach(el => { if (el.shadowRoot) out.push(...controls(el.shadowRoot)); });
+    return out.filter(el => {
+      const rect = el.getBoundingClientRect();
+      const style = window.getComputedStyle(el);
+      // Custom checkboxes often hide the real input, so keep those even when invisible
+      const hiddenToggle = el instanceof HTMLInputElement && ['checkbox', 'radio', 'file'].includes(el.type);
+      return hiddenToggle || (rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none');
+    });
+  };
+
+  const kindOf = (el: Element): { kind: string; type: string } => {
+    if (el instanceof HTMLSelectElement) return { kind: 'select', type: 'select' };
+    if (el instanceof HTMLTextAreaElement) return { kind: 'text', type: 'textarea' };
+    if (el instanceof HTMLInputElement) {
+      const type = el.type.toLowerCase();
+      if (type === 'checkbox') return { kind: 'checkbox', type };
+      if (type === 'radio') return { kind: 'radio', type };
+      if (type === 'file') return { kind: 'file', type };
+      if (['date', 'time', 'datetime-local', 'month', 'week', 'color', 'range'].includes(type)) return { kind: 'value', type };
+      return { kind: 'text', type };
+    }
+    const role = el.getAttribute('role');
+    if (role === 'checkbox' || role === 'switch') return { kind: 'checkbox', type: role };
+    if (role === 'radio') return { kind: 'radio', type: role };
+    if ((el as HTMLElement).isContentEditable) return { kind: 'contenteditable', type: 'contenteditable' };
+    return { kind: 'text', type: role || el.tagName.toLowerCase() };
+  };
+
+  // Label of the group a radio belongs to (fieldset legend, radiogroup name, or name attribute)
+  const groupLabelOf = (el: Element): string => {
+    const group = el.closest('[role=radiogroup]');
+    if (group) return refs.nameOf(group);
+    const legend = el.closest('fieldset')?.querySelector('legend');
+    if (legend) return legend.textContent || '';
+    return el.getAttribute('name') || '';
+  };
+
+  // The attribute containing the key is a good hit. The key containing a short attribute value
+  // (name="e" in "Email") says little, so that needs a whole word of 3+ characters and scores lower.
+  const partialScore = (value: string, k: string, partial: number) => {
+    if (partial === 0) return 0;
+    if (value.includes(k)) return partial;
+    if (value.length >= 3 && ` ${k} `.includes(` ${value} `)) return partial - 15;
+    return 0;
+  };
+
+  const scoreOf = (el: Element, key: string): { score: number; matchedBy: string } => {
+    const k = norm(key);
+    const label = norm(refs.nameOf(el));
+    const candidates: Array<[string, string, number, number]> = [
+      // [matchedBy, value, exact score, partial score]
+      ['label', label, 100, 60],
+      ['name', norm(el.getAttribute('name')), 90, 40],
+      ['id', norm(el.id), 90, 0],
+      ['placeholder', norm(el.getAttribute('placeholder')), 85, 45],
+      ['aria-label', norm(el.getAttribute('aria-label')), 95, 50]
+    ];
+    if (kindOf(el).kind === 'radio') candidates.push(['group', norm(groupLabelOf(el)), 80, 40]);
+
+    let best = { score: 0, matchedBy: '' };
+    for (const [matchedBy, value, exact, partial] of candidates) {
+      if (!value) continue;
+      const score = value === k ? exact : partialScore(value, k, partial);
+      if (score > best.score) best = { score, matchedBy };
+    }
+    return best;
+  };
+
+  const describe = (el: Element, matchedBy: string, score: number) => {
+    const { ref, fingerprint } = refs.assign(el);
+    const { kind, type } = kindOf(el);
+    return { ref, fingerprint, kind, type, label: refs.nameOf(el), matchedBy, score };
+  };
+
+  const find = (key: string, value: any) => {
+    const scored = controls(document)
+      .map(el => ({ el, ...scoreOf(el, key) }))
+      .filter(c => c.score > 0)
+      .sort((a, b) => b.score - a.score);
+    if (scored.length === 0) return null;
+
+    const best = scored[0];
+    // A radio matched by its group (legend/name): pick the option whose label/value matches the requested value
+    if (kindOf(best.el).kind === 'radio' && best.matchedBy !== 'label' && typeof value === 'string') {
+      const name = best.el.getAttribute('name');
+      const scope = best.el.closest('[role=radiogroup], fieldset, form') || document;
+      const options = Array.from(scope.querySelectorAll('input[type=radio], [role=radio]'))
+        .filter(r => !name || r.getAttribute('name') === name);
+      const v = norm(value);
+      const option = options.find(r => norm(refs.nameOf(r)) === v || norm((r as HTMLInputElement).value) === v)
+        || options.find(r => norm(refs.nameOf(r)).includes(v));
+      if (!option) return null;
+      return describe(option, best.matchedBy, best.score);
+    }
+    return describe(best.el, best.matchedBy, best.score);
+  };
+
+  // Submit control of the form that contains `ref`, or of the first form on the page
+  const findSubmit = (ref: string | null) => {
+    const field = ref ? document.querySelector(`[data-mcp-ref="${ref}"]`) : null;
+    const form = field?.closest('form') || document.querySelector('form');
+    const button = (form || document).querySelector('button[type=submit], input[type=submit], button:not([type])');
+    if (button) return refs.assign(button);
+    return null;
+  };
+
+  const requestSubmit = (ref: string | null) => {
+    const field = ref ? document.querySelector(`[data-mcp-ref="${ref}"]`) : null;
+    const form = (field?.closest('form') || document.querySelector('form')) as HTMLFormElement | null;
+    if (!form) return false;
+    form.requestSubmit();
+    return true;
+  };
+
+  w.__mcpForms = { find, findSubmit, requestSubmit };
+};
+
+const ensureHelpers = async (frame: Frame) => {
+  await frame.evaluate(installRefHelpers);
+  await frame.evaluate(installFormHelpers);
+};
+
+// Finds the control labelled `key` in a frame and tags it with a ref
+export const locateFormField = async (frame: Frame, key: string, value: FormFieldValue): Promise<FormFieldMatch | null> => {
+  await ensureHelpers(frame);
+  return frame.evaluate((k, v) => (window as any).__mcpForms.find(k, v), key, value as any);
+};
+
+export const locateSubmitControl = async (frame: Frame, fieldRef: string | null): Promise<{ ref: string; fingerprint: RefFingerprint } | null> => {
+  await ensureHelpers(frame);
+  return frame.evaluate(r => (window as any).__mcpForms.findSubmit(r), fieldRef);
+};
+
+export const requestFormSubmit = async (frame: Frame, fieldRef: string | null): Promise<boolean> => {
+  await ensureHelpers(frame);
+  return frame.evaluate(r => (window as any).__mcpForms.requestSubmit(r), fieldRef);
+};
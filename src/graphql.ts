@@ -0,0 +1,225 @@
+import { fetchApi, FetchApiResponse } from './rest-client.js';
+import { isValidRetryOptions, RetryOptions } from './retry.js';
+
+// GraphQL over HTTP on top of fetchApi (so auth profiles, retries and rate
+// limiting apply): POST or GET encoding, data/errors split, and a compact
+// schema summary built from an introspection query.
+
+export interface GraphqlArgs {
+  url: string;
+  query?: string;
+  variables?: Record<string, any>;
+  operationName?: string;
+  /** POST sends a JSON body; GET encodes the request in the query string (queries only) */
+  method?: 'POST' | 'GET';
+  headers?: Record<string, string>;
+  profile?: string;
+  timeout?: number;
+  retry?: RetryOptions;
+  /** Maximum characters of `data` to return */
+  limit?: number;
+  /** Run an introspection query and return a schema summary instead of `query` */
+  introspect?: boolean;
+  /** Restrict the introspection summary to these type names */
+  types?: string[];
+}
+
+export interface GraphqlResult {
+  status: number;
+  ok: boolean;
+  data?: any;
+  errors?: any[];
+  extensions?: any;
+  truncated?: boolean;
+  responseTimeMs: number;
+  attempts: number;
+  totalElapsedMs: number;
+}
+
+const DEFAULT_LIMIT = 20000;
+// Large enough for introspection results; the response `limit` is applied to `data` afterwards
+const READ_LIMIT = 20000000;
+
+export const isValidGraphqlArgs = (args: any): args is GraphqlArgs => {
+  if (typeof args !== 'object' || args === null) return false;
+  if (typeof args.url !== 'string') return false;
+  if (!args.introspect && typeof args.query !== 'string') return false;
+  if (args.query !== undefined && typeof args.query !== 'string') return false;
+  if (args.variables !== undefined && (typeof args.variables !== 'object' || args.variables === null || Array.isArray(args.variables))) return false;
+  if (args.operationName !== undefined && typeof args.operationName !== 'string') return false;
+  if (args.method !== undefined && !['POST', 'GET'].includes(args.method)) return false;
+  if (args.headers !== undefined && (typeof args.headers !== 'object' || args.headers === null || Array.isArray(args.headers))) return false;
+  if (args.profile !== undefined && typeof args.profile !== 'string') return false;
+  if (args.timeout !== undefined && typeof args.timeout !== 'number') return false;
+  if (args.retry !== undefined && !isValidRetryOptions(args.retry)) return false;
+  if (args.limit !== undefined && typeof args.limit !== 'number') return false;
+  if (args.introspect !== undefined && typeof args.introspect !== 'boolean') return false;
+  if (args.types !== undefined && (!Array.isArray(args.types) || !args.types.every((t: any) => typeof t === 'string'))) return false;
+  return true;
+};
+
+const TYPE_REF = 'kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } } } }';
+
+const INTROSPECTION_QUERY = `query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    subscriptionType { name }
+    types {
+      kind name description
+      fields(includeDeprecated: false) { name args { name type { ${TYPE_REF} } defaultValue } type { ${TYPE_REF} } }
+      inputFields { name type { ${TYPE_REF} } defaultValue }
+      interfaces { name }
+      enumValues(includeDeprecated: false) { name }
+      possibleTypes { name }
+    }
+  }
+}`;
+
+const typeName = (ref: any): string => {
+  if (!ref) return '?';
+  if (ref.kind === 'NON_NULL') return `${typeName(ref.ofType)}!`;
+  if (ref.kind === 'LIST') return `[${typeName(ref.ofType)}]`;
+  return ref.name;
+};
+
+const BUILTIN_SCALARS = ['String', 'Int', 'Float', 'Boolean', 'ID'];
+
+/**
+ * Condenses an introspection result into one line per field, e.g.
+ * "user(id: ID!): User" for objects and "name: String = \"x\"" for input objects.
+ */
+export const summarizeSchema = (schema: any, only?: string[]) => {
+  const wanted = only?.length ? new Set(only) : null;
+  const types = (schema.types || []).filter((t: any) => !t.name.startsWith('__') && (!wanted || wanted.has(t.name)));
+  const withDefault = (f: any) => (f.defaultValue !== null && f.defaultValue !== undefined ? ` = ${f.defaultValue}` : '');
+
+  const summary: Record<string, any> = {
+    queryType: schema.queryType?.name ?? null,
+    mutationType: schema.mutationType?.name ?? null,
+    subscriptionType: schema.subscriptionType?.name ?? null,
+    scalars: types.filter((t: any) => t.kind === 'SCALAR' && !BUILTIN_SCALARS.includes(t.name)).map((t: any) => t.name),
+    types: types.filter((t: any) => t.kind !== 'SCALAR').map((t: any) => {
+      const entry: Record<string, any> = { name: t.name, kind: t.kind };
+      if (t.description) entry.description = t.description.split('\n')[0];
+      if (t.interfaces?.length) entry.implements = t.interfaces.map((i: any) => i.name);
+      if (t.fields) {
+        entry.fields = t.fields.map((f: any) => {
+          const args = f.args?.length ? `(${f.args.map((a: any) => `${a.name}: ${typeName(a.type)}${withDefault(a)}`).join(', ')})` : '';
+          return `${f.name}${args}: ${typeName(f.type)}`;
+        });
+      }
+      if (t.inputFields) entry.fields = t.inputFields.map((f: any) => `${f.name}: ${typeName(f.type)}${withDefault(f)}`);
+      if (t.enumValues) entry.values = t.enumValues.map((v: any) => v.name);
+      if (t.possibleTypes && t.kind === 'UNION') entry.possibleTypes = t.possibleTypes.map((p: any) => p.name);
+      return entry;
+    })
+  };
+  if (wanted) {
+    const missing = [...wanted].filter(name => !types.some((t: any) => t.name === name));
+    if (missing.length) summary.missingTypes = missing;
+  }
+  return summary;
+};
+
+// Top-level operations of a document; comments, strings, variables and selection sets are skipped
+const operationsOf = (document: string) => {
+  const source = document.replace(/"""[\s\S]*?"""|"(?:[^"\\\n]|\\.)*"|#[^\n\r]*/g, ' ');
+  const operations: Array<{ type: string; name?: string }> = [];
+  let depth = 0;
+  // Definition whose selection set hasn't started yet, and whether its name may follow
+  let header: { type: string; name?: string } | null = null;
+  let nameNext = false;
+  for (const [token] of source.matchAll(/[{}()@]|[_A-Za-z][_0-9A-Za-z]*/g)) {
+    if (token === '{' || token === '(') {
+      if (depth === 0 && token === '{') {
+        // "{ ... }" without a keyword is an anonymous query
+        if (!header) operations.push({ type: 'query' });
+        else if (header.type !== 'fragment') operations.push(header);
+        header = null;
+      }
+      depth++;
+      nameNext = false;
+    } else if (token === '}' || token === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0) {
+      if (!header && /^[_A-Za-z]/.test(token)) {
+        header = { type: token };
+        nameNext = true;
+      } else if (header && nameNext && /^[_A-Za-z]/.test(token)) {
+        header.name = token;
+        nameNext = false;
+      } else {
+        nameNext = false;
+      }
+    }
+  }
+  return operations;
+};
+
+/**
+ * Whether the request would run a mutation: the operation picked by
+ * operationName (or the only one), or any operation when that is ambiguous.
+ */
+export const selectsMutation = (document: string, operationName?: string) => {
+  const operations = operationsOf(document);
+  const selected = operationName ? operations.find(op => op.name === operationName) : operations.length === 1 ? operations[0] : undefined;
+  return selected ? selected.type === 'mutation' : operations.some(op => op.type === 'mutation');
+};
+
+const execute = async (args: GraphqlArgs, query: string): Promise<FetchApiResponse> => {
+  const { url, variables, operationName, method = 'POST', headers = {}, profile, timeout, retry } = args;
+  const requestHeaders = { Accept: 'application/graphql-response+json, application/json', ...headers };
+  if (method === 'GET') {
+    if (selectsMutation(query, operationName)) throw new Error('Mutations cannot be sent with GET; use method "POST"');
+    const target = new URL(url);
+    target.searchParams.set('query', query);
+    if (variables) target.searchParams.set('variables', JSON.stringify(variables));
+    if (operationName) target.searchParams.set('operationName', operationName);
+    return fetchApi({ url: target.toString(), method: 'GET', headers: requestHeaders, timeout, retry, profile, limit: READ_LIMIT });
+  }
+  return fetchApi({
+    url,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...requestHeaders },
+    body: JSON.stringify({ query, ...(variables ? { variables } : {}), ...(operationName ? { operationName } : {}) }),
+    timeout,
+    retry,
+    profile,
+    limit: READ_LIMIT
+  });
+};
+
+/** Runs a GraphQL query (or introspection) and splits the response into data, errors and extensions. */
+export const graphqlRequest = async (args: GraphqlArgs): Promise<GraphqlResult> => {
+  const response = await execute(args, args.introspect ? INTROSPECTION_QUERY : args.query!);
+  const payload = response.body;
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload) || !('data' in payload || 'errors' in payload)) {
+    const preview = typeof payload === 'string' ? payload.substring(0, 500) : JSON.stringify(payload)?.substring(0, 500);
+    throw new Error(`Not a GraphQL response (${response.status} ${response.statusText}): ${preview}`);
+  }
+
+  let data = payload.data;
+  if (args.introspect && data?.__schema) data = summarizeSchema(data.__schema, args.types);
+
+  const limit = args.limit ?? DEFAULT_LIMIT;
+  let truncated = false;
+  const serialized = JSON.stringify(data) ?? '';
+  if (serialized.length > limit) {
+    // A fragment is still more useful than nothing; callers can narrow the query or `types`
+    data = serialized.substring(0, limit);
+    truncated = true;
+  }
+
+  return {
+    status: response.status,
+    ok: response.ok && !payload.errors?.length,
+    ...(data !== undefined ? { data } : {}),
+    ...(payload.errors?.length ? { errors: payload.errors } : {}),
+    ...(payload.extensions ? { extensions: payload.extensions } : {}),
+    ...(truncated ? { truncated } : {}),
+    responseTimeMs: response.responseTimeMs,
+    attempts: response.attempts,
+    totalElapsedMs: response.totalElapsedMs
+  };
+};
@@ -9,24 +9,34 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import * as fs from 'fs';
 import * as path from 'path';
-import { fileURLToPath } from 'url';
 import { execSync } from 'child_process';
-import puppeteer, { Browser, Page, ConsoleMessage, HTTPRequest } from 'puppeteer';
+import puppeteer, { Browser, BrowserContext, Page, ConsoleMessage, HTTPRequest, HTTPResponse, ElementHandle, Frame, InterceptResolutionAction } from 'puppeteer';
 import { WebSocketServer, WebSocket } from 'ws';
 import { franc } from 'franc-min';
 import { Readable } from 'stream';
 import { pipeline } from 'node:stream/promises';
-import { Readability } from '@mozilla/readability';
-import { JSDOM } from 'jsdom';
 import { createRequire } from 'module';
 const require = createRequire(import.meta.url);
-const pdf = require('pdf-parse');
-import { fetchApi, FetchApiArgs, isValidFetchApiArgs } from './rest-client.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-// Project root is one level up from 'src' or 'build'
-const PROJECT_ROOT = path.resolve(__dirname, '..');
+import { fetchApi, FetchApiArgs, fetchApiPages, isValidFetchApiArgs } from './rest-client.js';
+import { applyAuth, resolveAuth, ResolvedAuth } from './auth.js';
+import { resolveSearchProvider } from './search.js';
+import { cachedSearch, clearSearchCache, isValidCacheOptions, listSearchCache } from './search-cache.js';
+import { routeCommand } from './smart-command.js';
+import { PROJECT_ROOT } from './paths.js';
+import { isValidResearchOptions, research } from './research.js';
+import { graphqlRequest, isValidGraphqlArgs } from './graphql.js';
+import { isValidParseDocumentArgs, parseDocument } from './documents.js';
+import { extractArticle } from './article.js';
+import { htmlToMarkdownChunk } from './markdown.js';
+import { getAxSnapshot } from './accessibility.js';
+import { installRefHelpers, relocateRef, staleRefError, RefCandidate, RefFingerprint } from './refs.js';
+import { locateFormField, locateSubmitControl, requestFormSubmit, FormFieldMatch, FormFieldReport, FormFieldValue } from './forms.js';
+import { buildHar, createBodyFilter, isRedirectStatus, isValidNetworkCaptureOptions, NetworkCaptureOptions, NetworkEntry, toNetworkTimings, truncateBody } from './network.js';
+import { applyHeaderOverrides, compileMockRules, CompiledMockRule, findMockRule, mockContentType, mockHitCounts, MockRule } from './mocking.js';
+import { cookieMatchesDomain, isValidStorageState, openBlankOriginPage, readWebStorage, StorageState, StorageType, toCookieData, toOrigin, toStorageStateCookie, writeWebStorage } from './storage.js';
+import { BlockingPolicy, BlockingStats, createBlockingMatcher, createBlockingStats, isValidBlockingPolicy, recordBlockingResult } from './blocking.js';
+
+const SERVER_VERSION = '1.4.2';
 
 let translate: any;
 (async () => {
@@ -37,22 +47,195 @@ let translate: any;
   }
 })();
 
+// Slices long text output by character offsets (default window: 20000 characters)
+const sliceContent = (text: string, startIndex: number = 0, endIndex?: number) => {
+  const safeStart = Math.max(0, Math.floor(startIndex));
+  const defaultEnd = safeStart + 20000;
+  const safeEnd = Math.min(text.length, endIndex !== undefined ? Math.floor(endIndex) : defaultEnd);
+  return {
+    totalLength: text.length,
+    startIndex: safeStart,
+    endIndex: safeEnd,
+    remainingCharacters: Math.max(0, text.length - safeEnd),
+    content: text.slice(safeStart, safeEnd)
+  };
+};
+
+const originOf = (url: string): string | null => {
+  try {
+    return new URL(url).origin;
+  } catch (e) {
+    return null;
+  }
+};
+
+const BROWSER_ACTIONS = [
+  'click', 'double_click', 'right_click', 'type', 'clear', 'focus', 'select', 'check', 'uncheck',
+  'upload', 'drag', 'scroll', 'scroll_to', 'press_key', 'hover', 'waitForSelector', 'fill_form'
+] as const;
+
 interface BrowserActionArgs {
-  action: 'click' | 'type' | 'scroll' | 'press_key' | 'hover' | 'waitForSelector';
+  action: typeof BROWSER_ACTIONS[number];
   selector?: string;
   text?: string;
+  /** For type: clear the field before typing */
+  clear?: boolean;
+  /** For select: option values or visible labels to select */
+  values?: string[];
+  /** For upload: local file paths (relative to project root or absolute) */
+  files?: string[];
+  /** For drag: CSS selector or ref of the drop target */
+  target?: string;
   direction?: 'up' | 'down';
+  /** For scroll: pixels to scroll (default 500) */
+  amount?: number;
   key?: string;
+  /** For fill_form: map of field label/name/placeholder to value */
+  fields?: Record<string, FormFieldValue>;
+  /** For fill_form: submit the form afterwards (true) or click this selector/ref */
+  submit?: boolean | string;
   timeout?: number;
 }
 
+// Fields each action needs, checked before touching the page
+const ACTION_REQUIRED_FIELDS: Record<BrowserActionArgs['action'], Array<keyof BrowserActionArgs>> = {
+  click: ['selector'],
+  double_click: ['selector'],
+  right_click: ['selector'],
+  type: ['selector', 'text'],
+  clear: ['selector'],
+  focus: ['selector'],
+  select: ['selector', 'values'],
+  check: ['selector'],
+  uncheck: ['selector'],
+  upload: ['selector', 'files'],
+  drag: ['selector', 'target'],
+  scroll: [],
+  scroll_to: ['selector'],
+  press_key: ['key'],
+  hover: ['selector'],
+  waitForSelector: ['selector'],
+  fill_form: ['fields']
+};
+
+const validateBrowserAction = (args: any): BrowserActionArgs => {
+  if (typeof args !== 'object' || args === null) throw new Error('Action must be an object');
+  if (!BROWSER_ACTIONS.includes(args.action)) {
+    throw new Error(`Unknown action "${args.action}". Supported: ${BROWSER_ACTIONS.join(', ')}`);
+  }
+  for (const field of ACTION_REQUIRED_FIELDS[args.action as BrowserActionArgs['action']]) {
+    const value = args[field];
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      throw new Error(`Action "${args.action}" requires "${field}"`);
+    }
+  }
+  if (args.values !== undefined && (!Array.isArray(args.values) || !args.values.every((v: any) => typeof v === 'string'))) {
+    throw new Error('"values" must be an array of strings');
+  }
+  if (args.files !== undefined && (!Array.isArray(args.files) || !args.files.every((f: any) => typeof f === 'string'))) {
+    throw new Error('"files" must be an array of file paths');
+  }
+  if (args.fields !== undefined && (typeof args.fields !== 'object' || args.fields === null || Array.isArray(args.fields) || Object.keys(args.fields).length === 0)) {
+    throw new Error('"fields" must be a non-empty object of label -> value');
+  }
+  if (args.direction !== undefined && !['up', 'down'].includes(args.direction)) {
+    throw new Error('"direction" must be "up" or "down"');
+  }
+  return args as BrowserActionArgs;
+};
+
 interface ScreenshotArgs {
   filename?: string;
   fullPage?: boolean;
   destinationFolder?: string;
+  /** Image format (default png) */
+  format?: 'png' | 'jpeg' | 'webp';
+  /** 0-100, jpeg/webp only */
+  quality?: number;
+  /** Capture a single element (CSS selector or ref) */
+  selector?: string;
+  /** Capture a rectangle in page (document) coordinates */
+  clip?: { x: number; y: number; width: number; height: number };
+  /** Downscale so the longest side is at most this many pixels */
+  maxDimension?: number;
+  /** Return the image as base64 MCP image content */
+  inline?: boolean;
+  /** Write the image to disk (default true) */
+  save?: boolean;
+  /** How to wait for rendering before capture (default auto: fonts + network idle + paint) */
+  settle?: 'auto' | 'none' | 'delay' | 'networkidle';
+  /** Delay for settle="delay", or upper bound for settle="auto"/"networkidle" (ms, default 2000) */
+  settleMs?: number;
+}
+
+interface ScreenshotResult {
+  filePath: string | null;
+  data: string;
+  mimeType: string;
+  width: number;
+  height: number;
 }
 
+/** Page state check used by if/repeat/assert steps. All given fields must hold. */
+interface FlowCondition {
+  /** CSS selector or ref that must be present (or absent when `absent` is true) */
+  selector?: string;
+  absent?: boolean;
+  /** Exact number of elements matching `selector` */
+  count?: number;
+  minCount?: number;
+  maxCount?: number;
+  /** Text that must be visible on the page (substring, or /regex/flags) */
+  text?: string;
+  /** URL must match (substring, or /regex/flags) */
+  url?: string;
+  /** Keep polling until the condition holds or this many ms pass (default 0: check once) */
+  timeout?: number;
+}
+
+type BrowserFlowStep =
+  | (BrowserActionArgs & { optional?: boolean })
+  | { action: 'if'; condition: FlowCondition; then: BrowserFlowStep[]; else?: BrowserFlowStep[]; optional?: boolean }
+  | { action: 'repeat'; steps: BrowserFlowStep[]; until: FlowCondition; maxIterations?: number; optional?: boolean }
+  | { action: 'assert'; condition: FlowCondition; message?: string; optional?: boolean };
+
+interface FlowStepLog {
+  /** Step position, e.g. "2", "3.then.1", "4[2].1" */
+  step: string;
+  action: string;
+  status: 'ok' | 'failed' | 'optional_failed';
+  durationMs: number;
+  output?: any;
+  error?: string;
+}
+
+class FlowStepError extends Error {}
+
+type BrowserFlowResult =
+  | {
+      type: 'snapshot';
+      mode?: 'tree' | 'ax' | 'html' | 'markdown';
+      startIndex?: number;
+      endIndex?: number;
+      cursor?: number;
+      chunkSize?: number;
+      maxDepth?: number;
+      interactiveOnly?: boolean;
+      root?: string;
+    }
+  | { type: 'article'; startIndex?: number; endIndex?: number }
+  | ({ type: 'screenshot' } & ScreenshotArgs)
+  | { type: 'links' }
+  | { type: 'network'; includeStatic?: boolean; harFolder?: string }
+  | { type: 'console' };
+
 interface BrowserFlowArgs {
+  /** Auth profile applied to the tab for this flow (see auth.ts) */
+  profile?: string;
+
+  /** Named browser session to run in (default "default"); must exist (see browser_sessions create) */
+  session?: string;
+
   /** If provided, navigate to this URL before doing anything else */
   url?: string;
 
@@ -77,31 +260,100 @@ interface BrowserFlowArgs {
   /** Extra delay after navigation to allow hydration. Defaults to 1500 */
   stabilizeMs?: number;
 
-  /** Optional page interactions to run after navigation */
-  actions?: BrowserActionArgs[];
+  /** Request mocking rules for this flow only (null disables the browser-wide rules). Restored afterwards. */
+  mocks?: MockRule[] | null;
+
+  /** Network capture options for this flow only (e.g. response bodies). Restored afterwards. */
+  networkCapture?: NetworkCaptureOptions;
+
+  /** Request blocking for this flow only (null disables the browser-wide policy). Restored afterwards. */
+  blocking?: BlockingPolicy | null;
+
+  /** Optional page interactions to run after navigation (supports if/repeat/assert/optional steps) */
+  actions?: BrowserFlowStep[];
+
+  /** What to return at the end (defaults to snapshot tree). An array returns several results for the same page state. */
+  result?: BrowserFlowResult | BrowserFlowResult[];
+}
+
+interface CompiledBlocking {
+  policy: BlockingPolicy;
+  matcher: (url: string, resourceType: string) => string | null;
+}
 
-  /** What to return at the end (defaults to snapshot tree) */
-  result?:
-    | { type: 'snapshot'; mode?: 'tree' | 'html'; startIndex?: number; endIndex?: number }
-    | { type: 'screenshot'; filename?: string; fullPage?: boolean; destinationFolder?: string }
-    | { type: 'links' }
-    | { type: 'network'; includeStatic?: boolean }
-    | { type: 'console' };
+// Validates a blocking policy argument; null (or an empty policy) turns blocking off
+const compileBlocking = (policy: any): CompiledBlocking | null => {
+  if (policy === null) return null;
+  if (!isValidBlockingPolicy(policy)) throw new Error('Invalid blocking policy: expected { resourceTypes?, urlPatterns?, blockAds?, blockTrackers? }');
+  const empty = !policy.resourceTypes?.length && !policy.urlPatterns?.length && !policy.blockAds && !policy.blockTrackers;
+  if (empty) return null;
+  try {
+    return { policy, matcher: createBlockingMatcher(policy) };
+  } catch (e: any) {
+    throw new Error(`Invalid blocking urlPatterns: ${e.message}`);
+  }
+};
+
+// Flow-level settings that temporarily replace the browser-wide ones for one page
+interface PageOverrides {
+  blocking?: CompiledBlocking | null;
+  mocks?: CompiledMockRule[] | null;
+  networkCapture?: NetworkCaptureOptions;
 }
 
+const validateNetworkCapture = (options: any): NetworkCaptureOptions => {
+  if (!isValidNetworkCaptureOptions(options)) throw new Error('Invalid networkCapture: expected { captureBodies?, maxBodySize?, bodyUrlPatterns? }');
+  try {
+    createBodyFilter(options);
+  } catch (e: any) {
+    throw new Error(`Invalid networkCapture bodyUrlPatterns: ${e.message}`);
+  }
+  return options;
+};
+
+const DEFAULT_SESSION = 'default';
+
+interface BrowserSession {
+  name: string;
+  /**
+   * default: the shared browser with the persistent user_data/ profile;
+   * incognito: an isolated BrowserContext inside the shared browser;
+   * profile: its own browser backed by user_data/sessions/<name>
+   */
+  mode: 'default' | 'incognito' | 'profile';
+  browser: Browser | null;
+  context: BrowserContext | null;
+  pages: Page[];
+  activePageIndex: number;
+  proxy: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+const createSession = (name: string, mode: BrowserSession['mode'], proxy: string | null = null, userAgent: string | null = null): BrowserSession => ({
+  name, mode, browser: null, context: null, pages: [], activePageIndex: 0, proxy, userAgent, createdAt: new Date().toISOString()
+});
+
+const isValidSessionName = (name: any): name is string => typeof name === 'string' && /^[\w-]{1,64}$/.test(name);
+
 class WebCurlServer {
   private server: Server;
   private browser: Browser | null = null;
-  private pages: Page[] = [];
-  private activePageIndex: number = 0;
+  private sessions: Map<string, BrowserSession> = new Map([[DEFAULT_SESSION, createSession(DEFAULT_SESSION, 'default')]]);
   private readonly SCREENSHOT_DIR = path.join(PROJECT_ROOT, 'screenshots');
   private readonly PID_FILE = path.join(PROJECT_ROOT, 'logs', 'browser.pid');
   private readonly MAX_TABS = 10;
-  private networkRequests: Map<Page, any[]> = new Map();
+  private networkRequests: Map<Page, NetworkEntry[]> = new Map();
+  private networkCapture: NetworkCaptureOptions = {};
   private consoleMessages: Map<Page, any[]> = new Map();
+  private refRegistry: Map<Page, Map<string, RefFingerprint>> = new Map();
+  private blocking: CompiledBlocking | null = null;
+  private mocks: CompiledMockRule[] | null = null;
+  private pageOverrides: Map<Page, PageOverrides> = new Map();
+  private blockingStats: Map<Page, BlockingStats> = new Map();
+  // Auth profile headers of a running flow, only sent to the flow's origin
+  private authHeaders: Map<Page, { origin: string; headers: Record<string, string> }> = new Map();
   private customScreenshotDirs: Set<string> = new Set();
-  private proxy: string | null = null;
-  private userAgent: string | null = null;
   private browserURL: string | null = null;
   private idleTimer: NodeJS.Timeout | null = null;
 
@@ -114,7 +366,7 @@ class WebCurlServer {
     this.server = new Server(
       {
         name: 'web-curl',
-        version: '1.4.2',
+        version: SERVER_VERSION,
       },
       {
         capabilities: {
@@ -131,7 +383,7 @@ class WebCurlServer {
     };
 
     const cleanup = async () => {
-      if (this.browser) await this.browser.close();
+      await this.closeAllBrowsers();
       if (this.wss) this.wss.close();
       await this.server.close();
       process.exit(0);
@@ -232,9 +484,7 @@ class WebCurlServer {
     } catch (e) {}
   }
 
-  private async getBrowser() {
-    if (this.browser) return this.browser;
-
+  private async launchBrowser(userDataDir: string, proxy: string | null): Promise<Browser> {
     const launchOptions: any = {
       headless: true,
       args: [
@@ -248,15 +498,21 @@ class WebCurlServer {
       ]
     };
 
-    if (this.proxy) launchOptions.args.push(`--proxy-server=${this.proxy}`);
-    const userDataDir = path.join(PROJECT_ROOT, 'user_data');
+    if (proxy) launchOptions.args.push(`--proxy-server=${proxy}`);
     if (!fs.existsSync(userDataDir)) fs.mkdirSync(userDataDir, { recursive: true });
     launchOptions.userDataDir = userDataDir;
+    return puppeteer.launch(launchOptions);
+  }
+
+  // The shared browser: hosts the default session and every incognito session
+  private async getBrowser() {
+    if (this.browser) return this.browser;
 
+    const defaultSession = this.getSession(DEFAULT_SESSION);
     if (this.browserURL) {
       this.browser = await puppeteer.connect({ browserURL: this.browserURL });
     } else {
-      this.browser = await puppeteer.launch(launchOptions);
+      this.browser = await this.launchBrowser(path.join(PROJECT_ROOT, 'user_data'), defaultSession.proxy);
       const logsDir = path.join(PROJECT_ROOT, 'logs');
       if (!fs.existsSync(logsDir)) fs.mkdirSync(logsDir, { recursive: true });
       const pid = this.browser.process()?.pid;
@@ -265,55 +521,307 @@ class WebCurlServer {
 
     this.browser.on('disconnected', () => {
       this.browser = null;
-      this.pages = [];
+      for (const session of this.sessions.values()) {
+        if (session.mode === 'profile') continue;
+        session.context = null;
+        session.pages = [];
+        session.activePageIndex = 0;
+      }
     });
 
     return this.browser;
   }
 
+  // Returns the named session; only browser_sessions create adds sessions, so a typo never opens a fresh one
+  private getSession(name: string = DEFAULT_SESSION): BrowserSession {
+    if (!isValidSessionName(name)) throw new Error('Invalid session name: use 1-64 letters, digits, "_" or "-"');
+    const session = this.sessions.get(name);
+    if (!session) throw new Error(`Unknown session "${name}" (existing: ${[...this.sessions.keys()].join(', ')}); create it with browser_sessions first`);
+    return session;
+  }
+
+  // Cookie jar and storage owner of a session; launches its browser if needed
+  private async contextOf(session: BrowserSession): Promise<BrowserContext> {
+    if (session.mode === 'profile') {
+      if (!session.browser) {
+        if (this.browserURL) throw new Error('Profile sessions need a locally launched browser; use an incognito session with browserURL');
+        const browser = await this.launchBrowser(path.join(PROJECT_ROOT, 'user_data', 'sessions', session.name), session.proxy);
+        browser.on('disconnected', () => {
+          if (session.browser !== browser) return;
+          session.browser = null;
+          session.pages = [];
+          session.activePageIndex = 0;
+        });
+        session.browser = browser;
+      }
+      return session.browser.defaultBrowserContext();
+    }
+    const browser = await this.getBrowser();
+    if (session.mode === 'default') return browser.defaultBrowserContext();
+    if (!session.context) {
+      session.context = await browser.createBrowserContext(session.proxy ? { proxyServer: session.proxy } : {});
+    }
+    return session.context;
+  }
+
+  private async newPageIn(session: BrowserSession): Promise<Page> {
+    return (await this.contextOf(session)).newPage();
+  }
+
+  // Closes the session's pages and its context/browser; the session itself stays defined
+  private async closeSession(session: BrowserSession) {
+    if (session.mode === 'profile') {
+      const browser = session.browser;
+      session.browser = null;
+      await browser?.close();
+    } else if (session.mode === 'incognito') {
+      const context = session.context;
+      session.context = null;
+      await context?.close().catch(() => {});
+    } else if (this.browser) {
+      // The shared browser also hosts incognito contexts; its disconnect handler resets them
+      await this.browser.close();
+      this.browser = null;
+    }
+    session.pages = [];
+    session.activePageIndex = 0;
+  }
+
+  private async closeAllBrowsers() {
+    for (const session of this.sessions.values()) {
+      if (session.mode === 'profile') await this.closeSession(session);
+    }
+    await this.closeSession(this.getSession(DEFAULT_SESSION));
+  }
+
+  private async manageSessions(args: { action: string; name?: string; mode?: string; proxy?: string; userAgent?: string; deleteProfile?: boolean }): Promise<string> {
+    const { action, name } = args;
+    if (action === 'list') {
+      const list = Array.from(this.sessions.values()).map(session => ({
+        name: session.name,
+        mode: session.mode,
+        running: session.mode === 'default' ? !!this.browser : !!(session.browser || session.context),
+        tabs: session.pages.map(p => p.url()),
+        activeTab: session.activePageIndex,
+        proxy: session.proxy,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt
+      }));
+      return JSON.stringify(list, null, 2);
+    }
+
+    if (!isValidSessionName(name)) throw new Error('Invalid session name: use 1-64 letters, digits, "_" or "-"');
+    if (action === 'create') {
+      if (this.sessions.has(name)) throw new Error(`Session "${name}" already exists`);
+      const mode = args.mode ?? 'incognito';
+      if (mode !== 'incognito' && mode !== 'profile') throw new Error('mode must be "incognito" or "profile"');
+      this.sessions.set(name, createSession(name, mode, args.proxy || null, args.userAgent || null));
+      const storage = mode === 'profile' ? `profile in user_data/sessions/${name}` : 'incognito context';
+      return `Created session "${name}" (${storage})`;
+    }
+
+    if (action === 'destroy') {
+      if (name === DEFAULT_SESSION) throw new Error('The default session cannot be destroyed; use browser_close to close it');
+      const session = this.sessions.get(name);
+      if (!session) throw new Error(`Unknown session "${name}"`);
+      await this.closeSession(session);
+      this.sessions.delete(name);
+      if (session.mode === 'profile' && args.deleteProfile) {
+        fs.rmSync(path.join(PROJECT_ROOT, 'user_data', 'sessions', name), { recursive: true, force: true });
+        return `Destroyed session "${name}" and deleted its profile`;
+      }
+      return `Destroyed session "${name}"`;
+    }
+
+    throw new Error('action must be list, create or destroy');
+  }
+
+  // Cookies from the profile stay in the session; headers and credentials are removed again by clearAuthFromPage
+  private async applyAuthToPage(page: Page, auth: ResolvedAuth, url?: string) {
+    if (auth.basic) await page.authenticate(auth.basic);
+    if (Object.keys(auth.headers).length > 0) {
+      const target = url || page.url();
+      if (!/^https?:/.test(target)) throw new Error(`Auth profile "${auth.profile}" sends headers: pass a url so they can be limited to its origin`);
+      this.authHeaders.set(page, { origin: new URL(target).origin, headers: auth.headers });
+      await this.syncRequestInterception(page);
+    }
+    if (auth.cookies.length > 0) {
+      const fallbackUrl = url || page.url();
+      if (auth.cookies.some(c => !c.domain) && !/^https?:/.test(fallbackUrl)) {
+        throw new Error(`Auth profile "${auth.profile}" has cookies without a domain: pass a url to set them for`);
+      }
+      await page.setCookie(...auth.cookies.map(c => ({
+        name: c.name,
+        value: c.value,
+        path: c.path || '/',
+        ...(c.domain ? { domain: c.domain } : { url: fallbackUrl })
+      })));
+    }
+  }
+
+  private async clearAuthFromPage(page: Page, auth: ResolvedAuth) {
+    if (page.isClosed()) return;
+    if (auth.basic) await page.authenticate(null);
+    if (this.authHeaders.delete(page)) await this.syncRequestInterception(page);
+  }
+
+  // Runs `fn` on an open tab of the session showing `origin`, or on a blank throwaway tab for it
+  private async withOriginPage<T>(session: BrowserSession, origin: string, type: StorageType, fn: (page: Page) => Promise<T>): Promise<T> {
+    const open = session.pages.find(p => {
+      try { return new URL(p.url()).origin === origin; } catch (e) { return false; }
+    });
+    if (open) return fn(open);
+    if (type === 'session') throw new Error(`sessionStorage belongs to a tab: open a tab on ${origin} in this session first`);
+    const page = await openBlankOriginPage(await this.contextOf(session), origin);
+    try {
+      return await fn(page);
+    } finally {
+      await page.close().catch(() => {});
+    }
+  }
+
+  private async manageStorage(args: any): Promise<string> {
+    const { action } = args;
+    const session = this.getSession(args.session);
+    const context = await this.contextOf(session);
+    const type: StorageType = args.type ?? 'local';
+    if (type !== 'local' && type !== 'session') throw new Error('type must be "local" or "session"');
+
+    if (action === 'get_cookies') {
+      const cookies = await context.cookies();
+      const filtered = args.domain ? cookies.filter(c => cookieMatchesDomain(c, args.domain)) : cookies;
+      return JSON.stringify(filtered.map(toStorageStateCookie), null, 2);
+    }
+
+    if (action === 'set_cookies') {
+      if (!Array.isArray(args.cookies) || args.cookies.length === 0) throw new Error('set_cookies requires a non-empty "cookies" array');
+      await context.setCookie(...args.cookies.map(toCookieData));
+      return `Set ${args.cookies.length} cookie(s) in session "${session.name}"`;
+    }
+
+    if (action === 'delete_cookies') {
+      if (!args.domain && !args.name) throw new Error('delete_cookies requires "domain" and/or "name"');
+      const matching = (await context.cookies())
+        .filter(c => (!args.domain || cookieMatchesDomain(c, args.domain)) && (!args.name || c.name === args.name));
+      if (matching.length > 0) await context.deleteCookie(...matching);
+      return `Deleted ${matching.length} cookie(s) from session "${session.name}"`;
+    }
+
+    if (action === 'get_storage' || action === 'set_storage') {
+      if (!args.origin) throw new Error(`${action} requires "origin"`);
+      const origin = toOrigin(args.origin);
+      if (action === 'get_storage') {
+        const items = await this.withOriginPage(session, origin, type, page => readWebStorage(page, type));
+        return JSON.stringify({ origin, type, items }, null, 2);
+      }
+      const items = args.items ?? {};
+      if (typeof items !== 'object' || Array.isArray(items) || !Object.values(items).every(v => typeof v === 'string' || v === null)) {
+        throw new Error('items must map keys to strings (or null to remove)');
+      }
+      const size = await this.withOriginPage(session, origin, type, page => writeWebStorage(page, type, items, !!args.clear));
+      return `Updated ${type}Storage for ${origin} (${size} key(s) stored)`;
+    }
+
+    if (action === 'export_state' || action === 'import_state') {
+      if (!args.file) throw new Error(`${action} requires "file"`);
+      const filePath = path.isAbsolute(args.file) ? args.file : path.resolve(PROJECT_ROOT, args.file);
+
+      if (action === 'export_state') {
+        // localStorage is exported for the origins of open tabs plus any requested ones
+        const origins = new Set<string>((args.origins || []).map(toOrigin));
+        for (const p of session.pages) {
+          try {
+            const origin = new URL(p.url()).origin;
+            if (origin.startsWith('http')) origins.add(origin);
+          } catch (e) {}
+        }
+        const state: StorageState = {
+          cookies: (await context.cookies()).map(toStorageStateCookie),
+          origins: []
+        };
+        for (const origin of origins) {
+          const items = await this.withOriginPage(session, origin, 'local', page => readWebStorage(page, 'local'));
+          state.origins.push({ origin, localStorage: Object.entries(items).map(([name, value]) => ({ name, value })) });
+        }
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, JSON.stringify(state, null, 2));
+        return `Exported ${state.cookies.length} cookie(s) and localStorage for ${state.origins.length} origin(s) to ${filePath}`;
+      }
+
+      if (!fs.existsSync(filePath)) throw new Error(`State file not found: ${filePath}`);
+      const state = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+      if (!isValidStorageState(state)) throw new Error('Invalid storage state: expected { cookies: [...], origins: [{ origin, localStorage: [{ name, value }] }] }');
+      if (state.cookies.length > 0) await context.setCookie(...state.cookies.map(toCookieData));
+      for (const entry of state.origins || []) {
+        const items = Object.fromEntries(entry.localStorage.map(item => [item.name, item.value]));
+        await this.withOriginPage(session, toOrigin(entry.origin), 'local', page => writeWebStorage(page, 'local', items));
+      }
+      return `Imported ${state.cookies.length} cookie(s) and localStorage for ${(state.origins || []).length} origin(s) into session "${session.name}"`;
+    }
+
+    throw new Error('action must be get_cookies, set_cookies, delete_cookies, get_storage, set_storage, export_state or import_state');
+  }
+
+  private allPages(): Page[] {
+    return Array.from(this.sessions.values()).flatMap(session => session.pages);
+  }
+
   private resetIdleTimer() {
     if (this.idleTimer) clearTimeout(this.idleTimer);
     this.idleTimer = setTimeout(async () => {
-      if (this.browser) {
+      if (this.browser || this.allPages().length > 0) {
         console.error('[Browser] Idle timeout, closing...');
-        await this.browser.close();
-        this.browser = null;
-        this.pages = [];
+        await this.closeAllBrowsers();
       }
     }, 15 * 60 * 1000); // 15 minute idle timeout
   }
 
-  private async getPage(index?: number): Promise<Page> {
-    await this.getBrowser();
-    const idx = index !== undefined ? index : this.activePageIndex;
+  private async getPage(index?: number, sessionName?: string): Promise<Page> {
+    const session = this.getSession(sessionName);
+    const idx = index !== undefined ? index : session.activePageIndex;
 
-    if (!this.pages[idx]) {
+    if (!session.pages[idx]) {
       // If the requested tab index doesn't exist (e.g., first use or stale index),
       // create a new page and make it the active tab.
-      const page = await this.createNewPage();
-      this.activePageIndex = this.pages.length - 1;
+      const page = await this.createNewPage(session.name);
+      session.activePageIndex = session.pages.length - 1;
       return page;
     }
-    return this.pages[idx];
+    return session.pages[idx];
   }
 
-  private async createNewPage(): Promise<Page> {
-    const browser = await this.getBrowser();
-    const page = await browser.newPage();
-    await this.setupPage(page);
+  private async createNewPage(sessionName?: string): Promise<Page> {
+    const session = this.getSession(sessionName);
+    const page = await this.newPageIn(session);
+    await this.setupPage(page, session);
 
     // LRU-style tab management
-    if (this.pages.length >= this.MAX_TABS) {
-      const oldest = this.pages.shift();
+    if (session.pages.length >= this.MAX_TABS) {
+      const oldest = session.pages.shift();
       await oldest?.close();
     }
-    this.pages.push(page);
+    session.pages.push(page);
     return page;
   }
 
-  private async setupPage(page: Page) {
+  // Renders a URL in a throwaway tab of the session (not added to its tab list) and returns the HTML
+  private async renderPage(url: string, timeout: number, sessionName?: string) {
+    const session = this.getSession(sessionName);
+    const page = await this.newPageIn(session);
+    try {
+      await this.setupPage(page, session);
+      await page.goto(url, { waitUntil: 'domcontentloaded', timeout });
+      await page.waitForNetworkIdle({ idleTime: 1000, timeout: Math.min(timeout, 10000) }).catch(() => {});
+      return { url: page.url(), html: await page.content() };
+    } finally {
+      await page.close().catch(() => {});
+    }
+  }
+
+  private async setupPage(page: Page, session: BrowserSession) {
     await page.setViewport({ width: 1280, height: 800 });
-    if (this.userAgent) await page.setUserAgent(this.userAgent);
+    if (session.userAgent) await page.setUserAgent(session.userAgent);
+    await this.syncRequestInterception(page);
 
     page.on('console', (msg: ConsoleMessage) => {
       const msgs = this.consoleMessages.get(page) || [];
@@ -321,41 +829,216 @@ class WebCurlServer {
       this.consoleMessages.set(page, msgs.slice(-100));
     });
 
+    // Started entries, completed by the response/finished/failed events below
+    const pending = new WeakMap<HTTPRequest, { entry: NetworkEntry; start: number }>();
+
     page.on('request', (req: HTTPRequest) => {
-      const reqs = this.networkRequests.get(page) || [];
-      reqs.push({
+      // Credentials never go to third-party scripts, CDNs or analytics of the page
+      const auth = this.authHeaders.get(page);
+      if (auth && !req.isInterceptResolutionHandled() && originOf(req.url()) === auth.origin) {
+        req.continue({ ...req.continueRequestOverrides(), headers: { ...req.headers(), ...auth.headers } }, 0).catch(() => {});
+      }
+
+      const mock = req.isInterceptResolutionHandled() ? undefined : findMockRule(this.mocksFor(page) || [], req.url(), req.method());
+      if (mock) this.applyMockRule(req, mock);
+
+      const blocking = this.blockingFor(page);
+      let blocked: string | null = null;
+      if (blocking && !mock && !req.isInterceptResolutionHandled()) {
+        // The page's own navigation is never blocked, only its subresources and subframes
+        const isMainNavigation = req.isNavigationRequest() && req.frame() === page.mainFrame();
+        blocked = isMainNavigation ? null : blocking.matcher(req.url(), req.resourceType());
+        recordBlockingResult(this.statsFor(page), req.url(), blocked);
+        // Cooperative interception (priority 0) so other request handlers can still take over
+        const resolution = blocked ? req.abort('blockedbyclient', 0) : req.continue(req.continueRequestOverrides(), 0);
+        resolution.catch(() => {});
+      }
+      // Mocks alone also enable interception: requests no rule resolved must still be continued
+      if (req.interceptResolutionState().action === InterceptResolutionAction.None) {
+        req.continue(req.continueRequestOverrides(), 0).catch(() => {});
+      }
+
+      const entry: NetworkEntry = {
         url: req.url(),
         method: req.method(),
         resourceType: req.resourceType(),
-        headers: req.headers()
-      });
+        headers: req.headers(),
+        ...(req.postData() !== undefined ? { postData: req.postData() } : {}),
+        startedAt: new Date().toISOString(),
+        ...(blocked ? { blocked } : {}),
+        ...(mock ? { mocked: mock.id } : {})
+      };
+      pending.set(req, { entry, start: Date.now() });
+
+      const reqs = this.networkRequests.get(page) || [];
+      reqs.push(entry);
       this.networkRequests.set(page, reqs.slice(-100));
     });
 
+    page.on('response', (res: HTTPResponse) => {
+      const started = pending.get(res.request());
+      if (!started) return;
+      const headers = res.headers();
+      const address = res.remoteAddress();
+      Object.assign(started.entry, {
+        status: res.status(),
+        statusText: res.statusText(),
+        responseHeaders: headers,
+        mimeType: (headers['content-type'] || '').split(';')[0].trim(),
+        fromCache: res.fromCache(),
+        ...(address.ip ? { remoteIPAddress: address.ip, remotePort: address.port } : {})
+      });
+    });
+
+    page.on('requestfinished', async (req: HTTPRequest) => {
+      const started = pending.get(req);
+      const res = req.response();
+      if (!started || !res) return;
+      const { entry, start } = started;
+      entry.durationMs = Date.now() - start;
+      const timing = res.timing();
+      if (timing) entry.timings = toNetworkTimings(timing, entry.durationMs);
+
+      const capture = this.captureFor(page);
+      if (!createBodyFilter(capture)(entry.url, entry.mimeType || '')) return;
+      try {
+        Object.assign(entry, truncateBody(await res.text(), capture));
+      } catch (e) {
+        // Redirects and evicted resources have no body
+      }
+    });
+
+    page.on('requestfailed', (req: HTTPRequest) => {
+      const started = pending.get(req);
+      if (!started) return;
+      started.entry.durationMs = Date.now() - started.start;
+      started.entry.failure = req.failure()?.errorText || 'failed';
+    });
+
+    try {
+      const cdp = await page.createCDPSession();
+      // HTTPRequest doesn't expose its CDP request id, so sizes are matched to entries by method and URL
+      const requestKeys = new Map<string, string>();
+      await cdp.send('Network.enable');
+      cdp.on('Network.requestWillBeSent', event => {
+        // Redirects reuse the request id: the last hop's URL is the one that finishes loading
+        requestKeys.set(event.requestId, `${event.request.method} ${event.request.url}${event.request.urlFragment ?? ''}`);
+      });
+      cdp.on('Network.loadingFinished', event => {
+        const key = requestKeys.get(event.requestId);
+        requestKeys.delete(event.requestId);
+        // Oldest unsized entry for the same request; failed, blocked and redirected entries never finish loading
+        const entry = (this.networkRequests.get(page) || []).find(e =>
+          e.transferSize === undefined && !e.failure && !e.blocked && !isRedirectStatus(e.status) && `${e.method} ${e.url}` === key
+        );
+        if (entry) entry.transferSize = event.encodedDataLength;
+      });
+      cdp.on('Network.loadingFailed', event => requestKeys.delete(event.requestId));
+    } catch (e) {
+      console.error('[Browser] Transfer sizes unavailable for this page');
+    }
+
     page.on('close', () => {
       this.networkRequests.delete(page);
       this.consoleMessages.delete(page);
-      this.pages = this.pages.filter(p => p !== page);
+      this.refRegistry.delete(page);
+      this.pageOverrides.delete(page);
+      this.blockingStats.delete(page);
+      this.authHeaders.delete(page);
+      session.pages = session.pages.filter(p => p !== page);
     });
   }
 
+  // Mock rules resolve with priority 1 so they win over blocking (priority 0)
+  private applyMockRule(req: HTTPRequest, mock: CompiledMockRule) {
+    const { rule } = mock;
+    mock.hits++;
+    if (rule.delayMs) req.enqueueInterceptAction(() => new Promise(r => setTimeout(r, rule.delayMs)));
+
+    let resolution: Promise<void>;
+    if (rule.response) {
+      resolution = req.respond({
+        status: rule.response.status ?? 200,
+        headers: rule.response.headers,
+        contentType: mockContentType(mock),
+        body: mock.body ?? ''
+      }, 1);
+    } else if (rule.abort) {
+      resolution = req.abort(rule.abort, 1);
+    } else {
+      const overrides = req.continueRequestOverrides();
+      const headers = rule.requestHeaders ? applyHeaderOverrides(overrides.headers ?? req.headers(), rule.requestHeaders) : overrides.headers;
+      resolution = req.continue({ ...overrides, ...(headers ? { headers } : {}) }, 1);
+    }
+    resolution.catch(() => {});
+  }
+
+  // A flow-level policy (even null) overrides the browser-wide one for its page
+  private blockingFor(page: Page): CompiledBlocking | null {
+    const override = this.pageOverrides.get(page)?.blocking;
+    return override !== undefined ? override : this.blocking;
+  }
+
+  private mocksFor(page: Page): CompiledMockRule[] | null {
+    const override = this.pageOverrides.get(page)?.mocks;
+    return override !== undefined ? override : this.mocks;
+  }
+
+  private statsFor(page: Page): BlockingStats {
+    let stats = this.blockingStats.get(page);
+    if (!stats) {
+      stats = createBlockingStats();
+      this.blockingStats.set(page, stats);
+    }
+    return stats;
+  }
+
+  // Request interception is only enabled while a policy applies, since it disables the HTTP cache
+  private async syncRequestInterception(page: Page) {
+    if (page.isClosed()) return;
+    await page.setRequestInterception(!!this.blockingFor(page) || !!this.mocksFor(page)?.length || this.authHeaders.has(page));
+  }
+
+  private captureFor(page: Page): NetworkCaptureOptions {
+    return this.pageOverrides.get(page)?.networkCapture ?? this.networkCapture;
+  }
+
+  private async networkReport(page: Page, includeStatic: boolean, harFolder?: string) {
+    const reqs = this.networkRequests.get(page) || [];
+    const requests = includeStatic ? reqs : reqs.filter(r => !['image', 'font', 'stylesheet', 'media'].includes(r.resourceType));
+    const harPath = harFolder ? await this.saveHar(page, harFolder) : undefined;
+    const mocks = this.mocksFor(page);
+    return {
+      ...(harPath ? { harPath } : {}),
+      requests,
+      blocking: this.blockingFor(page) ? this.statsFor(page) : null,
+      ...(mocks?.length ? { mocks: mockHitCounts(mocks) } : {})
+    };
+  }
+
+  // Writes every captured request of the page (static resources included) as a HAR 1.2 file
+  private async saveHar(page: Page, folder: string): Promise<string> {
+    const destDir = path.isAbsolute(folder) ? folder : path.resolve(PROJECT_ROOT, folder);
+    if (!fs.existsSync(destDir)) fs.mkdirSync(destDir, { recursive: true });
+    const har = buildHar(this.networkRequests.get(page) || [], { url: page.url(), title: await page.title() }, SERVER_VERSION);
+    const filePath = path.join(destDir, `network-${new Date().toISOString().replace(/[:.]/g, '-')}.har`);
+    await fs.promises.writeFile(filePath, JSON.stringify(har, null, 2));
+    return filePath;
+  }
+
+  private refsFor(page: Page): Map<string, RefFingerprint> {
+    let refs = this.refRegistry.get(page);
+    if (!refs) {
+      refs = new Map();
+      this.refRegistry.set(page, refs);
+    }
+    return refs;
+  }
+
   private async getAccessibilityTree(page: Page): Promise<string> {
+    await page.evaluate(installRefHelpers);
     const tree = await page.evaluate(() => {
-      const getRole = (el: HTMLElement): string => {
-        const role = el.getAttribute('role');
-        if (role) return role;
-        const tag = el.tagName.toLowerCase();
-        switch (tag) {
-          case 'button': return 'button';
-          case 'input': return (el as HTMLInputElement).type === 'button' ? 'button' : 'textbox';
-          case 'a': return 'link';
-          case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': return 'heading';
-          case 'img': return 'image';
-          case 'table': return 'table';
-          case 'form': return 'form';
-          default: return 'generic';
-        }
-      };
+      const helpers = (window as any).__mcpRefs;
 
       const buildTree = (el: HTMLElement): any => {
         const rect = el.getBoundingClientRect();
@@ -363,15 +1046,15 @@ class WebCurlServer {
         if (!isVisible) return null;
 
         const node: any = {
-          role: getRole(el),
+          role: helpers.roleOf(el),
           name: el.getAttribute('aria-label') || el.innerText?.split('\n')[0].substring(0, 50).trim() || '',
-          ref: el.getAttribute('data-mcp-ref') || null
+          ref: null
         };
 
-        if (!node.ref && (['button', 'link', 'textbox'].includes(node.role) || el.onclick)) {
-          const id = Math.random().toString(36).substring(7);
-          el.setAttribute('data-mcp-ref', id);
-          node.ref = id;
+        if (['button', 'link', 'textbox', 'searchbox', 'checkbox', 'radio', 'combobox', 'listbox', 'slider', 'spinbutton'].includes(node.role) || el.onclick) {
+          const { ref, fingerprint } = helpers.assign(el);
+          node.ref = ref;
+          node.fingerprint = fingerprint;
         }
 
         const children = Array.from(el.children)
@@ -385,6 +1068,13 @@ class WebCurlServer {
       return buildTree(document.body);
     });
 
+    const refs = this.refsFor(page);
+    const register = (node: any) => {
+      if (node.ref) refs.set(node.ref, node.fingerprint);
+      node.children?.forEach(register);
+    };
+    register(tree);
+
     const formatNode = (node: any, indent: string = ''): string => {
       let out = `${indent}${node.role}: "${node.name}"${node.ref ? ` [ref:${node.ref}]` : ''}\n`;
       if (node.children) {
@@ -396,7 +1086,164 @@ class WebCurlServer {
     return formatNode(tree);
   }
 
+  private async getAxTree(page: Page, options: { maxDepth?: number; interactiveOnly?: boolean; root?: string }): Promise<string> {
+    const root = options.root ? await this.waitForElement(page, options.root, 5000) : undefined;
+    try {
+      return await getAxSnapshot(page, { maxDepth: options.maxDepth, interactiveOnly: options.interactiveOnly, root }, this.refsFor(page));
+    } finally {
+      await root?.dispose();
+    }
+  }
+
+  // `html` is shared between results of one flow so they all see the same page state
+  private async buildFlowResult(page: Page, result: BrowserFlowResult, html: () => Promise<string>): Promise<any[]> {
+    if (result.type === 'snapshot') {
+      const mode = result.mode ?? 'tree';
+      if (mode === 'html') {
+        const slice = sliceContent(await html(), result.startIndex, result.endIndex);
+        return [{ type: 'text', text: JSON.stringify({ mode: 'html', ...slice }, null, 2) }];
+      }
+      if (mode === 'markdown') {
+        const chunk = htmlToMarkdownChunk(await html(), page.url(), result.cursor, result.chunkSize);
+        return [{ type: 'text', text: JSON.stringify({ mode: 'markdown', url: page.url(), ...chunk }, null, 2) }];
+      }
+
+      if (mode === 'ax') {
+        const tree = await this.getAxTree(page, result);
+        return [{ type: 'text', text: tree }];
+      }
+
+      const tree = await this.getAccessibilityTree(page);
+      return [{ type: 'text', text: tree }];
+    }
+
+    if (result.type === 'article') {
+      const article = await this.getArticle(page, result.startIndex, result.endIndex, await html());
+      return [{ type: 'text', text: JSON.stringify(article, null, 2) }];
+    }
+
+    if (result.type === 'screenshot') {
+      const { type, ...screenshotArgs } = result;
+      return this.screenshotContent(await this.takeScreenshot(page, { ...screenshotArgs, inline: result.inline !== false }), result.inline !== false);
+    }
+
+    if (result.type === 'links') {
+      const links = await page.evaluate(() =>
+        Array.from(document.querySelectorAll('a'))
+          .map(a => ({ text: a.innerText.trim(), href: (a as HTMLAnchorElement).href }))
+          .filter(l => l.href.startsWith('http'))
+      );
+      return [{ type: 'text', text: JSON.stringify(links, null, 2) }];
+    }
+
+    if (result.type === 'console') {
+      return [{ type: 'text', text: JSON.stringify(this.consoleMessages.get(page) || [], null, 2) }];
+    }
+
+    if (result.type === 'network') {
+      const report = await this.networkReport(page, result.includeStatic ?? false, result.harFolder);
+      return [{ type: 'text', text: JSON.stringify(report, null, 2) }];
+    }
+
+    throw new Error('Invalid browser_flow result type');
+  }
+
+  private async getArticle(page: Page, startIndex?: number, endIndex?: number, pageHtml?: string) {
+    const html = pageHtml ?? await page.content();
+    const article = extractArticle(html, page.url());
+    if (!article) throw new Error('Could not extract a readable article from this page');
+    const { markdown, ...meta } = article;
+    return { mode: 'article', url: page.url(), ...meta, ...sliceContent(markdown, startIndex, endIndex) };
+  }
+
   private setupToolHandlers() {
+    const blockingSchema = {
+      type: ['object', 'null'],
+      description: 'Request blocking policy. The page navigation itself is never blocked. Pass null to turn blocking off.',
+      properties: {
+        resourceTypes: {
+          type: 'array',
+          items: { type: 'string', enum: ['stylesheet', 'image', 'media', 'font', 'script', 'texttrack', 'xhr', 'fetch', 'prefetch', 'eventsource', 'websocket', 'manifest', 'ping', 'other'] },
+          description: 'Resource types to block, e.g. ["image", "font", "media"].'
+        },
+        urlPatterns: { type: 'array', items: { type: 'string' }, description: 'URL globs ("*://*.example.com/ads/*") or /regex/ strings to block.' },
+        blockAds: { type: 'boolean', description: 'Block requests to known ad networks.' },
+        blockTrackers: { type: 'boolean', description: 'Block requests to known analytics/tracking services.' }
+      }
+    };
+
+    const mocksSchema = {
+      type: ['array', 'null'],
+      description: 'Request mocking rules, first match wins. Each rule fulfills, rewrites request headers, aborts and/or delays matching requests. Pass null to remove all rules.',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Name used for the hit count in the network result.' },
+          url: { type: 'string', description: 'URL glob ("*://api.example.com/users/*") or /regex/ string.' },
+          method: { type: 'string', description: 'HTTP method to match (any when omitted).' },
+          response: {
+            type: 'object',
+            description: 'Fulfill the request with this response.',
+            properties: {
+              status: { type: 'number', description: 'HTTP status (default 200).' },
+              headers: { type: 'object', additionalProperties: { type: 'string' } },
+              contentType: { type: 'string' },
+              body: { type: ['string', 'object', 'array'], description: 'Inline body; objects are sent as JSON.' },
+              bodyFile: { type: 'string', description: 'Local file used as the body (relative to project root or absolute).' }
+            }
+          },
+          requestHeaders: { type: 'object', description: 'Headers to set (string) or remove (null) before the request is sent.' },
+          abort: { type: 'string', enum: ['aborted', 'accessdenied', 'addressunreachable', 'blockedbyclient', 'blockedbyresponse', 'connectionaborted', 'connectionclosed', 'connectionfailed', 'connectionrefused', 'connectionreset', 'internetdisconnected', 'namenotresolved', 'timedout', 'failed'], description: 'Fail the request with this network error.' },
+          delayMs: { type: 'number', description: 'Hold the request this long before resolving it.' }
+        },
+        required: ['url']
+      }
+    };
+
+    const networkCaptureSchema = {
+      type: 'object',
+      description: 'Network capture options. Status, headers, timings, sizes and failures are always recorded.',
+      properties: {
+        captureBodies: { type: 'boolean', description: 'Also record JSON/text response bodies (default false).' },
+        maxBodySize: { type: 'number', description: 'Maximum characters kept per body (default 100000).' },
+        bodyUrlPatterns: { type: 'array', items: { type: 'string' }, description: 'Only capture bodies for URLs matching these globs or /regex/ strings.' }
+      }
+    };
+
+    const flowResultSchema = {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['snapshot', 'article', 'screenshot', 'links', 'network', 'console'], description: 'Final output type. "article" returns the main content (Readability) as Markdown with title/byline/metadata.' },
+        mode: { type: 'string', enum: ['tree', 'ax', 'html', 'markdown'], description: 'For snapshot only: tree (default), ax (Chrome accessibility tree with states/values, includes shadow DOM and iframes), html slice, or markdown (structure-preserving, paginated by chunk).' },
+        startIndex: { type: 'number', description: 'For snapshot html / article: slice start (default 0).' },
+        endIndex: { type: 'number', description: 'For snapshot html / article: slice end (default startIndex+20000).' },
+        cursor: { type: 'number', description: 'For snapshot markdown: chunk number to return (0-based, default 0). Use nextCursor from the previous response.' },
+        chunkSize: { type: 'number', description: 'For snapshot markdown: maximum characters per chunk (default 20000).' },
+        maxDepth: { type: 'number', description: 'For snapshot ax: maximum tree depth to print.' },
+        interactiveOnly: { type: 'boolean', description: 'For snapshot ax: only list interactive controls (buttons, links, form fields).' },
+        root: { type: 'string', description: 'For snapshot ax: CSS selector or ref of the subtree root.' },
+        filename: { type: 'string', description: 'For screenshot: custom filename.' },
+        fullPage: { type: 'boolean', description: 'For screenshot: full page (true) or viewport (false). Default true.' },
+        destinationFolder: { type: 'string', description: 'For screenshot: output directory (relative to project root or absolute).' },
+        inline: { type: 'boolean', description: 'For screenshot: also return the image inline as MCP image content (default true).' },
+        format: { type: 'string', enum: ['png', 'jpeg', 'webp'], description: 'For screenshot: image format (default png).' },
+        quality: { type: 'number', description: 'For screenshot: 0-100 quality for jpeg/webp.' },
+        selector: { type: 'string', description: 'For screenshot: capture only this element (CSS selector or ref).' },
+        clip: {
+          type: 'object',
+          description: 'For screenshot: capture this rectangle in page coordinates.',
+          properties: { x: { type: 'number' }, y: { type: 'number' }, width: { type: 'number' }, height: { type: 'number' } }
+        },
+        maxDimension: { type: 'number', description: 'For screenshot: downscale so the longest side is at most this many pixels (e.g. 1568 for vision models).' },
+        save: { type: 'boolean', description: 'For screenshot: write the file to disk (default true). Set false with inline for remote clients.' },
+        settle: { type: 'string', enum: ['auto', 'none', 'delay', 'networkidle'], description: 'For screenshot: wait strategy before capture (default auto: network idle + fonts + paint).' },
+        settleMs: { type: 'number', description: 'For screenshot: delay for settle="delay", or max wait for auto/networkidle (default 2000).' },
+        includeStatic: { type: 'boolean', description: 'For network: include images/fonts/css (default false).' },
+        harFolder: { type: 'string', description: 'For network: also write all captured requests as a HAR 1.2 file to this folder (relative to project root or absolute).' }
+      },
+      required: ['type']
+    };
+
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         // Expose only a small, agent-friendly surface to reduce tool-chaining.
@@ -404,11 +1251,13 @@ class WebCurlServer {
         {
           name: 'browser_flow',
           description:
-            'One-call browser workflow: (optional) open URL → (optional) actions → return ONE result (snapshot/screenshot/links/console/network). Use this for almost all browser tasks to avoid many steps.',
+            'One-call browser workflow: (optional) open URL → (optional) actions → return one or more results (snapshot/article/screenshot/links/console/network). Use this for almost all browser tasks to avoid many steps. Prefer result type "article" to read the main text of a page as Markdown.',
           inputSchema: {
             type: 'object',
             properties: {
+              session: { type: 'string', description: 'Named browser session with its own cookies, storage and tabs (default "default", the persistent user_data/ profile). Other names must be created with browser_sessions first.' },
               url: { type: 'string', description: 'Optional URL to open before running actions.' },
+              profile: { type: 'string', description: 'Auth profile for this flow: basic credentials answer auth challenges, bearer/apiKey/oauth2 headers are sent only with requests to the origin of the flow URL, cookie profiles are added to the session.' },
               newTab: { type: 'boolean', description: 'If true, opens a new tab first (default false).' },
               tabIndex: { type: 'number', description: 'Optional tab index to select before running the flow.' },
               navigationTimeoutMs: { type: 'number', description: 'Navigation timeout in ms (default 90000).' },
@@ -419,16 +1268,41 @@ class WebCurlServer {
               networkIdleTimeoutMs: { type: 'number', description: 'Network-idle wait timeout in ms (default 30000).' },
               networkIdleTimeMs: { type: 'number', description: 'Network-idle window in ms (default 1000).' },
               stabilizeMs: { type: 'number', description: 'Extra delay after navigation to let hydration finish (default 1500).' },
+              blocking: { ...blockingSchema, description: 'Request blocking for this flow only; overrides the browser_configure policy and is restored afterwards.' },
+              mocks: { ...mocksSchema, description: 'Request mocking rules for this flow only; override the browser_configure rules and are restored afterwards.' },
+              networkCapture: { ...networkCaptureSchema, description: 'Network capture options for this flow only (e.g. { captureBodies: true, bodyUrlPatterns: ["*/api/*"] }).' },
               actions: {
                 type: 'array',
-                description: 'Optional list of page interactions to run after navigation.',
+                description:
+                  'Optional list of steps to run after navigation. Besides interactions, supports flow control: "if" (condition → then/else), "repeat" (steps until condition, maxIterations), and "assert" (condition). Any step may set optional:true to continue on failure. The response includes a per-step log.',
                 items: {
                   type: 'object',
                   properties: {
-                    action: { type: 'string', enum: ['click', 'type', 'scroll', 'press_key', 'hover', 'waitForSelector'], description: 'Interaction type.' },
-                    selector: { type: 'string', description: 'CSS selector or ref from snapshot (e.g., ref:abcd).' },
+                    action: { type: 'string', enum: [...BROWSER_ACTIONS, 'if', 'repeat', 'assert'], description: 'Interaction or flow-control type.' },
+                    optional: { type: 'boolean', description: 'If true, a failure of this step is logged but does not abort the flow.' },
+                    condition: {
+                      type: 'object',
+                      description: 'For if/assert: page check. Fields: selector (+absent, count, minCount, maxCount), text (visible text), url (substring or /regex/), timeout (ms to keep polling).'
+                    },
+                    then: { type: 'array', items: { type: 'object' }, description: 'For action="if": steps to run when the condition holds.' },
+                    else: { type: 'array', items: { type: 'object' }, description: 'For action="if": steps to run otherwise.' },
+                    steps: { type: 'array', items: { type: 'object' }, description: 'For action="repeat": steps to run each iteration.' },
+                    until: { type: 'object', description: 'For action="repeat": stop once this condition holds (same fields as condition).' },
+                    maxIterations: { type: 'number', description: 'For action="repeat": iteration cap (default 10). Reaching it before "until" holds fails the step unless optional is set.' },
+                    message: { type: 'string', description: 'For action="assert": custom failure message.' },
+                    selector: { type: 'string', description: 'CSS selector or ref from snapshot (e.g., ref:abcd). Optional for scroll (scrolls that element instead of the window).' },
                     text: { type: 'string', description: 'Text to type (for action="type").' },
+                    clear: { type: 'boolean', description: 'Clear the field before typing (for action="type").' },
+                    values: { type: 'array', items: { type: 'string' }, description: 'Option values or labels (for action="select").' },
+                    files: { type: 'array', items: { type: 'string' }, description: 'Local file paths, relative to project root or absolute (for action="upload").' },
+                    target: { type: 'string', description: 'Drop target selector or ref (for action="drag").' },
                     direction: { type: 'string', enum: ['up', 'down'], description: 'Scroll direction (for action="scroll").' },
+                    amount: { type: 'number', description: 'Scroll distance in pixels (for action="scroll", default 500).' },
+                    fields: {
+                      type: 'object',
+                      description: 'For action="fill_form": map of field label/name/placeholder to value (string; true/false for checkboxes; option label for selects/radio groups; file path(s) for uploads).'
+                    },
+                    submit: { type: ['boolean', 'string'], description: 'For action="fill_form": true to submit the form, or a selector/ref of the button to click.' },
                     key: { type: 'string', description: 'Keyboard key (for action="press_key").' },
                     timeout: { type: 'number', description: 'Wait timeout for selector-based actions (default 30000).' }
                   },
@@ -436,29 +1310,20 @@ class WebCurlServer {
                 }
               },
               result: {
-                type: 'object',
-                description: 'What to return at the end. Defaults to {type:"snapshot", mode:"tree"}.',
-                properties: {
-                  type: { type: 'string', enum: ['snapshot', 'screenshot', 'links', 'network', 'console'], description: 'Final output type.' },
-                  mode: { type: 'string', enum: ['tree', 'html'], description: 'For snapshot only: tree (default) or html slice.' },
-                  startIndex: { type: 'number', description: 'For snapshot html: slice start (default 0).' },
-                  endIndex: { type: 'number', description: 'For snapshot html: slice end (default startIndex+20000).' },
-                  filename: { type: 'string', description: 'For screenshot: custom filename.' },
-                  fullPage: { type: 'boolean', description: 'For screenshot: full page (true) or viewport (false). Default true.' },
-                  destinationFolder: { type: 'string', description: 'For screenshot: output directory (relative to project root or absolute).' },
-                  includeStatic: { type: 'boolean', description: 'For network: include images/fonts/css (default false).' }
-                },
-                required: ['type']
+                description:
+                  'What to return at the end. Defaults to {type:"snapshot", mode:"tree"}. Pass an array (e.g. [{type:"article"},{type:"links"},{type:"screenshot"}]) to get several results for the same page state in one call.',
+                anyOf: [flowResultSchema, { type: 'array', items: flowResultSchema }]
               }
             }
           }
         },
         {
           name: 'browser_configure',
-          description: 'Set browser-wide settings (proxy, user-agent, viewport). Sessions are always persisted automatically using the local user_data/ profile.',
+          description: 'Set browser-wide settings (proxy, user-agent, viewport, request blocking, request mocking, network capture). Sessions are always persisted automatically using the local user_data/ profile.',
           inputSchema: {
             type: 'object',
             properties: {
+              session: { type: 'string', description: 'Session whose proxy/user-agent/viewport to change (default "default"). Blocking, mocks and network capture apply to all sessions.' },
               proxy: { type: 'string', description: 'Proxy server URL (e.g., http://proxy.example.com:8080).' },
               userAgent: { type: 'string', description: 'Custom User-Agent string to identify the browser.' },
               viewport: {
@@ -467,24 +1332,33 @@ class WebCurlServer {
                   width: { type: 'number', description: 'Viewport width in pixels.' },
                   height: { type: 'number', description: 'Viewport height in pixels.' }
                 }
-              }
+              },
+              blocking: blockingSchema,
+              mocks: mocksSchema,
+              networkCapture: networkCaptureSchema
             }
           }
         },
         {
           name: 'parse_document',
-          description: 'Downloads and extracts text content from a PDF or DOCX file at a given URL. Useful for researching documents that are not standard HTML pages.',
+          description: 'Extracts the content of a document from a URL or local file: PDF and plain text as text; DOCX, XLSX/CSV (Markdown tables), PPTX (slides with speaker notes), EPUB (chapters) and HTML (Readability) as Markdown. The format is detected from magic bytes, content type and extension. Returns metadata (title, author, page/sheet/slide/chapter count) and the content, sliced with startIndex/endIndex.',
           inputSchema: {
             type: 'object',
             properties: {
-              url: { type: 'string', description: 'The URL of the PDF or DOCX document.' }
+              url: { type: 'string', description: 'Document URL, or a local file path (relative paths resolve against the project root, e.g. a download_file destination).' },
+              profile: { type: 'string', description: 'Named auth profile from auth-profiles.json / WEB_CURL_AUTH_PROFILES (bearer, basic, apiKey, oauth2, cookies).' },
+              format: { type: 'string', enum: ['pdf', 'docx', 'xlsx', 'pptx', 'epub', 'csv', 'html', 'text'], description: 'Skip detection and parse as this format.' },
+              maxRows: { type: 'number', description: 'Maximum rows per sheet for XLSX/CSV (default 500).' },
+              startIndex: { type: 'number', description: 'Start character of the returned content (default 0).' },
+              endIndex: { type: 'number', description: 'End character of the returned content (default startIndex + 20000).' },
+              timeout: { type: 'number', description: 'Download timeout in milliseconds (default 60000).' }
             },
             required: ['url']
           }
         },
         {
           name: 'fetch_api',
-          description: 'Performs a standard REST API request. Supports custom methods, headers, and request bodies. Responses are truncated to a specified limit to prevent context overflow.',
+          description: 'Performs a standard REST API request. Supports custom methods, headers, and request bodies. The body is streamed and reading stops at the limit; binary responses are reported as metadata (size, sniffed MIME type, sha256) and NDJSON/SSE streams as parsed event arrays.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -492,11 +1366,86 @@ class WebCurlServer {
               method: { type: 'string', description: 'HTTP method (GET, POST, PUT, DELETE, etc.).' },
               headers: { type: 'object', description: 'Optional HTTP headers.' },
               body: { type: 'string', description: 'Optional request body.' },
-              limit: { type: 'number', description: 'Maximum number of characters to return from the response body.' }
+              limit: { type: 'number', description: 'Maximum number of characters to return from the response body. Reading stops once it is reached.' },
+              saveTo: { type: 'string', description: 'Save binary response bodies to this file path (relative to the project root or absolute).' },
+              select: { type: 'string', description: 'JSONPath/JMESPath-style expression applied to JSON bodies before limit, e.g. "$.data.items[*].title", "items[?status == \'open\']", "$..email".' },
+              include: { type: 'array', items: { type: 'string' }, description: 'Dotted field paths to keep (e.g. ["id", "user.name"]); arrays are traversed.' },
+              exclude: { type: 'array', items: { type: 'string' }, description: 'Dotted field paths to remove.' },
+              page: {
+                type: 'object',
+                description: 'Return one page of an array inside the (selected) JSON value.',
+                properties: {
+                  path: { type: 'string', description: 'Path of the array (default: the value itself).' },
+                  offset: { type: 'number', description: 'First item (default 0).' },
+                  count: { type: 'number', description: 'Number of items.' }
+                }
+              },
+              paginate: {
+                type: 'object',
+                description: 'Fetch following pages and return merged items with per-page status instead of a single body. Stops on the last page, an empty page, an error, maxPages or maxItems. include/exclude apply to the merged items; select/page are not allowed.',
+                properties: {
+                  strategy: { type: 'string', enum: ['link', 'cursor', 'page', 'offset'], description: 'link: Link rel="next" header; cursor: next cursor/URL in the body; page: increment a page number; offset: advance an offset.' },
+                  itemsPath: { type: 'string', description: 'Path of the items array in each page (e.g. "data.items"); omit when the body is an array.' },
+                  maxPages: { type: 'number', description: 'Maximum pages (default 10).' },
+                  maxItems: { type: 'number', description: 'Stop after this many items.' },
+                  cursorPath: { type: 'string', description: 'cursor: path of the next cursor or next URL in the body (e.g. "meta.next_cursor").' },
+                  cursorParam: { type: 'string', description: 'cursor: query parameter for the cursor (default "cursor").' },
+                  pageParam: { type: 'string', description: 'page: query parameter (default "page").' },
+                  startPage: { type: 'number', description: 'page: first page number when the URL has none (default 1).' },
+                  offsetParam: { type: 'string', description: 'offset: query parameter (default "offset").' },
+                  pageSize: { type: 'number', description: 'page/offset: items per page; a shorter page ends pagination. Also the offset step.' }
+                },
+                required: ['strategy']
+              },
+              profile: { type: 'string', description: 'Named auth profile from auth-profiles.json / WEB_CURL_AUTH_PROFILES (bearer, basic, apiKey, oauth2, cookies). Explicit headers override the profile.' },
+              timeout: { type: 'number', description: 'Timeout per attempt in milliseconds (default 60000).' },
+              retry: {
+                type: 'object',
+                description: 'Retry policy with exponential backoff and jitter. Retry-After is honored. POST/PATCH are only retried on 425, or 429/503 with Retry-After, unless retryUnsafe is set; network errors and timeouts only for idempotent methods.',
+                properties: {
+                  retries: { type: 'number', description: 'Extra attempts after the first (default 2, 0 disables retries).' },
+                  retryOn: { type: 'array', items: { type: 'number' }, description: 'Status codes to retry (default 408, 425, 429, 500, 502, 503, 504).' },
+                  baseDelayMs: { type: 'number', description: 'First backoff delay, doubled per attempt (default 500).' },
+                  maxDelayMs: { type: 'number', description: 'Maximum single wait, including Retry-After (default 30000).' },
+                  retryUnsafe: { type: 'boolean', description: 'Also retry network errors and any retryOn status for POST/PATCH (default false).' }
+                }
+              }
             },
             required: ['url', 'method', 'limit']
           }
         },
+        {
+          name: 'graphql',
+          description: 'Runs a GraphQL query or mutation and returns data and errors separately. Use introspect: true first to get a compact summary of the schema types and fields.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              url: { type: 'string', description: 'The GraphQL endpoint URL.' },
+              query: { type: 'string', description: 'The GraphQL document (required unless introspect is true).' },
+              variables: { type: 'object', description: 'Variables for the operation.' },
+              operationName: { type: 'string', description: 'Operation to run when the document contains several.' },
+              method: { type: 'string', enum: ['POST', 'GET'], description: 'POST (default) sends JSON; GET encodes query/variables in the URL (refused when the selected operation is a mutation).' },
+              headers: { type: 'object', description: 'Optional HTTP headers.' },
+              profile: { type: 'string', description: 'Named auth profile from auth-profiles.json / WEB_CURL_AUTH_PROFILES.' },
+              timeout: { type: 'number', description: 'Timeout per attempt in milliseconds (default 60000).' },
+              retry: {
+                type: 'object',
+                description: 'Retry policy with exponential backoff and jitter. Retry-After is honored. POST requests (the default method) are only retried on 425, or 429/503 with Retry-After, unless retryUnsafe is set; network errors and timeouts only for idempotent methods.',
+                properties: {
+                  retries: { type: 'number', description: 'Extra attempts after the first (default 2, 0 disables retries).' },
+                  retryOn: { type: 'array', items: { type: 'number' }, description: 'Status codes to retry (default 408, 425, 429, 500, 502, 503, 504).' },
+                  baseDelayMs: { type: 'number', description: 'First backoff delay, doubled per attempt (default 500).' },
+                  maxDelayMs: { type: 'number', description: 'Maximum single wait, including Retry-After (default 30000).' },
+                  retryUnsafe: { type: 'boolean', description: 'Also retry network errors and any retryOn status for POST (default false).' }
+                }
+              },
+              limit: { type: 'number', description: 'Maximum characters of data to return (default 20000).' },
+              introspect: { type: 'boolean', description: 'Return a schema summary (query/mutation roots, types with "field(arg: Type): Type" lines, enums, unions) instead of running query.' },
+              types: { type: 'array', items: { type: 'string' }, description: 'With introspect, only summarize these type names.' }
+            },
+            required: ['url']
+          }
+        },
         {
           name: 'download_file',
           description: 'Downloads a file from a URL directly to the local file system. Ensures the destination folder exists and handles streaming for large files.',
@@ -505,33 +1454,131 @@ class WebCurlServer {
             properties: {
               url: { type: 'string', description: 'The URL of the file to download.' },
               destinationFolder: { type: 'string', description: 'The local directory where the file should be saved.' },
-              filename: { type: 'string', description: 'Optional custom filename. If omitted, the name is derived from the URL.' }
+              filename: { type: 'string', description: 'Optional custom filename. If omitted, the name is derived from the URL.' },
+              profile: { type: 'string', description: 'Named auth profile from auth-profiles.json / WEB_CURL_AUTH_PROFILES (bearer, basic, apiKey, oauth2, cookies).' }
             },
             required: ['url', 'destinationFolder']
           }
         },
         {
           name: 'multi_search',
-          description: 'Executes multiple Google search queries in parallel. Returns a combined list of results for each query. Highly efficient for broad research across multiple related topics.',
+          description: 'Executes multiple web search queries in parallel (Google CSE, Brave, Bing, SearXNG or DuckDuckGo). Returns normalized results (title, link, snippet, position) per query; provider errors such as exhausted quota are reported per query. Highly efficient for broad research across multiple related topics.',
           inputSchema: {
             type: 'object',
             properties: {
-              queries: { type: 'array', items: { type: 'string' }, description: 'An array of search query strings.' }
+              queries: { type: 'array', items: { type: 'string' }, description: 'An array of search query strings.' },
+              provider: { type: 'string', enum: ['google', 'brave', 'bing', 'searxng', 'duckduckgo'], description: 'Search provider (default: WEB_CURL_SEARCH_PROVIDER, else the first configured of google, brave, bing, searxng, duckduckgo).' },
+              num: { type: 'number', description: 'Results per query (provider limits apply).' },
+              language: { type: 'string', description: 'Language code, e.g. "en".' },
+              region: { type: 'string', description: 'Country code, e.g. "US".' },
+              site: { type: 'string', description: 'Restrict results to this site/domain.' },
+              dateRestrict: { type: 'string', description: 'Recency window: d[n], w[n], m[n] or y[n] (e.g. "w1").' },
+              cache: { type: 'string', enum: ['use', 'bypass', 'refresh'], description: 'Search cache mode: use (default) serves fresh cached results, bypass skips the cache entirely, refresh re-runs the search and overwrites the entry.' },
+              cacheTtl: { type: 'number', description: 'Seconds to keep new cache entries (default WEB_CURL_SEARCH_CACHE_TTL or 86400; 0 disables caching).' }
             },
             required: ['queries']
           }
         },
+        {
+          name: 'search_cache',
+          description: 'Inspect and manage the on-disk search cache (search_cache/): list recent queries with provider, parameters, hit count and expiry, or clear entries (all, by query/provider/key, or only expired ones).',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              action: { type: 'string', enum: ['list', 'clear'], description: 'list (default) or clear.' },
+              query: { type: 'string', description: 'list: only queries containing this text. clear: only entries for this exact (normalized) query.' },
+              provider: { type: 'string', description: 'clear: only entries of this provider.' },
+              key: { type: 'string', description: 'clear: a single entry by key (from list).' },
+              expiredOnly: { type: 'boolean', description: 'clear: only remove expired entries.' },
+              limit: { type: 'number', description: 'list: maximum entries to return (default 50).' }
+            }
+          }
+        },
+        {
+          name: 'research',
+          description: 'Search-then-read in one call: runs a web search, fetches the top K results in parallel (plain HTTP, browser fallback for JS-heavy pages), extracts the main content, drops near-duplicate pages, and returns the passages most relevant to the query per source with citations (URL, title, fetched-at).',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: { type: 'string', description: 'The research question or search query.' },
+              k: { type: 'number', description: 'Number of search results to read (default 5, max 10).' },
+              provider: { type: 'string', enum: ['google', 'brave', 'bing', 'searxng', 'duckduckgo'], description: 'Search provider (default: configured provider).' },
+              excerptsPerSource: { type: 'number', description: 'Excerpts per source (default 3).' },
+              maxExcerptChars: { type: 'number', description: 'Maximum characters per excerpt (default 700).' },
+              browserFallback: { type: 'boolean', description: 'Render pages in the browser when plain HTTP returns no readable content (default true).' },
+              timeout: { type: 'number', description: 'Per-page timeout in milliseconds (default 20000).' },
+              session: { type: 'string', description: 'Browser session used for the fallback renders (default session when omitted).' },
+              cache: { type: 'string', enum: ['use', 'bypass', 'refresh'], description: 'Search cache mode: use (default) serves fresh cached results, bypass skips the cache entirely, refresh re-runs the search and overwrites the entry.' },
+              cacheTtl: { type: 'number', description: 'Seconds to keep new cache entries (default WEB_CURL_SEARCH_CACHE_TTL or 86400; 0 disables caching).' }
+            },
+            required: ['query']
+          }
+        },
+        {
+          name: 'browser_storage',
+          description: 'Inspect and seed browser state: get/set/delete cookies, read/write localStorage or sessionStorage for an origin, and export/import the whole session state as a Playwright storageState-compatible JSON file.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              action: { type: 'string', enum: ['get_cookies', 'set_cookies', 'delete_cookies', 'get_storage', 'set_storage', 'export_state', 'import_state'] },
+              session: { type: 'string', description: 'Browser session to use (default "default").' },
+              domain: { type: 'string', description: 'For get_cookies/delete_cookies: only cookies for this domain (subdomains included).' },
+              name: { type: 'string', description: 'For delete_cookies: only cookies with this name.' },
+              cookies: {
+                type: 'array',
+                description: 'For set_cookies: cookies to set. Each needs name, value and domain (or url).',
+                items: {
+                  type: 'object',
+                  properties: {
+                    name: { type: 'string' },
+                    value: { type: 'string' },
+                    domain: { type: 'string' },
+                    url: { type: 'string' },
+                    path: { type: 'string' },
+                    expires: { type: 'number', description: 'Unix time in seconds; omit for a session cookie.' },
+                    httpOnly: { type: 'boolean' },
+                    secure: { type: 'boolean' },
+                    sameSite: { type: 'string', enum: ['Strict', 'Lax', 'None'] }
+                  },
+                  required: ['name', 'value']
+                }
+              },
+              origin: { type: 'string', description: 'For get_storage/set_storage: origin such as https://example.com.' },
+              type: { type: 'string', enum: ['local', 'session'], description: 'For get_storage/set_storage: localStorage (default) or sessionStorage (needs an open tab on the origin).' },
+              items: { type: 'object', description: 'For set_storage: keys to set (string) or remove (null).' },
+              clear: { type: 'boolean', description: 'For set_storage: clear the storage before writing items.' },
+              file: { type: 'string', description: 'For export_state/import_state: JSON file path (relative to project root or absolute).' },
+              origins: { type: 'array', items: { type: 'string' }, description: 'For export_state: extra origins whose localStorage to include (open tabs are always included).' }
+            },
+            required: ['action']
+          }
+        },
+        {
+          name: 'browser_sessions',
+          description: 'List, create or destroy named browser sessions. Each session has its own cookies, storage, tabs, proxy and user-agent; pass its name as "session" to browser_flow.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              action: { type: 'string', enum: ['list', 'create', 'destroy'] },
+              name: { type: 'string', description: 'Session name (letters, digits, "_" or "-"). Required for create/destroy.' },
+              mode: { type: 'string', enum: ['incognito', 'profile'], description: 'For create: incognito (in-memory, default) or profile (persistent dir user_data/sessions/<name>).' },
+              proxy: { type: 'string', description: 'For create: proxy server URL for this session.' },
+              userAgent: { type: 'string', description: 'For create: User-Agent for this session.' },
+              deleteProfile: { type: 'boolean', description: 'For destroy: also delete the profile directory of a profile session.' }
+            },
+            required: ['action']
+          }
+        },
         {
           name: 'browser_close',
-          description: 'Immediately terminates the browser process and closes all open tabs. Note: the browser also auto-closes after 15 minutes of inactivity.',
+          description: 'Immediately terminates the browser processes and closes all open tabs in every session. Note: the browser also auto-closes after 15 minutes of inactivity.',
           inputSchema: { type: 'object', properties: {} }
         }
       ]
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const toolName = request.params.name;
-      const args = request.params.arguments;
+    // smart_command re-enters this to run the tool a command was routed to
+    const callTool = async (toolName: string, args: any): Promise<any> => {
 
       // Extension Priority: If extension is connected, route commands through it
       // DISABLED BY USER REQUEST
@@ -584,53 +1631,62 @@ class WebCurlServer {
       try {
         this.resetIdleTimer();
         if (toolName === 'browser_close') {
-          if (this.browser) {
-            await this.browser.close();
-            this.browser = null;
-            this.pages = [];
-            this.activePageIndex = 0;
+          if (this.browser || this.allPages().length > 0) {
+            await this.closeAllBrowsers();
             this.networkRequests.clear();
             this.consoleMessages.clear();
+            this.refRegistry.clear();
+            this.pageOverrides.clear();
+            this.blockingStats.clear();
           }
           return { content: [{ type: 'text', text: 'Browser closed' }] };
         }
 
+        if (toolName === 'browser_sessions') {
+          return { content: [{ type: 'text', text: await this.manageSessions(args as any) }] };
+        }
+
+        if (toolName === 'browser_storage') {
+          return { content: [{ type: 'text', text: await this.manageStorage(args || {}) }] };
+        }
+
         if (toolName === 'browser_tabs') {
           const { action, index } = args as any;
-          const browser = await this.getBrowser();
+          const session = this.getSession((args as any).session);
           if (action === 'list') {
-            const list = await Promise.all(this.pages.map(async (p, i) => ({
+            const list = await Promise.all(session.pages.map(async (p, i) => ({
               index: i,
-              active: i === this.activePageIndex,
+              active: i === session.activePageIndex,
               url: p.url(),
               title: await p.title()
             })));
             return { content: [{ type: 'text', text: JSON.stringify(list, null, 2) }] };
           }
           if (action === 'new') {
-            await this.createNewPage();
-            this.activePageIndex = this.pages.length - 1;
-            return { content: [{ type: 'text', text: `Opened new tab at index ${this.activePageIndex}` }] };
+            await this.createNewPage(session.name);
+            session.activePageIndex = session.pages.length - 1;
+            return { content: [{ type: 'text', text: `Opened new tab at index ${session.activePageIndex}` }] };
           }
           if (action === 'select') {
-            if (index === undefined || index < 0 || index >= this.pages.length) throw new Error('Invalid tab index');
-            this.activePageIndex = index;
+            if (index === undefined || index < 0 || index >= session.pages.length) throw new Error('Invalid tab index');
+            session.activePageIndex = index;
             return { content: [{ type: 'text', text: `Selected tab ${index}` }] };
           }
           if (action === 'close') {
-            const targetIdx = index !== undefined ? index : this.activePageIndex;
-            if (targetIdx < 0 || targetIdx >= this.pages.length) throw new Error('Invalid tab index');
-            const pageToClose = this.pages[targetIdx];
+            const targetIdx = index !== undefined ? index : session.activePageIndex;
+            if (targetIdx < 0 || targetIdx >= session.pages.length) throw new Error('Invalid tab index');
+            const pageToClose = session.pages[targetIdx];
             await pageToClose.close(); // Trigger 'close' event handler
             return { content: [{ type: 'text', text: `Closed tab ${targetIdx}` }] };
           }
         }
 
-        const page = await this.getPage();
+        const page = await this.getPage(undefined, (args as any)?.session);
         if (toolName === 'browser_navigate') {
           const { url } = args as any;
           this.networkRequests.set(page, []);
           this.consoleMessages.set(page, []);
+          this.blockingStats.delete(page);
           
           // Align with working test script logic
           await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 90000 });
@@ -648,308 +1704,273 @@ class WebCurlServer {
           return { content: [{ type: 'text', text: `Navigated to ${url}` }] };
         } else if (toolName === 'browser_flow') {
           const flow = (args || {}) as BrowserFlowArgs;
+          const session = this.getSession(flow.session);
 
           // Tab selection / creation
           if (flow.tabIndex !== undefined) {
-            if (flow.tabIndex < 0 || flow.tabIndex >= this.pages.length) throw new Error('Invalid tabIndex');
-            this.activePageIndex = flow.tabIndex;
+            if (flow.tabIndex < 0 || flow.tabIndex >= session.pages.length) throw new Error('Invalid tabIndex');
+            session.activePageIndex = flow.tabIndex;
           }
           if (flow.newTab) {
-            await this.createNewPage();
-            this.activePageIndex = this.pages.length - 1;
+            await this.createNewPage(session.name);
+            session.activePageIndex = session.pages.length - 1;
           }
 
-          const p = await this.getPage();
+          const p = await this.getPage(undefined, session.name);
+          // Resolved before the overrides go in: an unknown profile or failed token fetch must not leave them on the tab
+          const auth = flow.profile ? await resolveAuth(flow.profile) : null;
+
+          // Per-flow blocking, mocking and capture settings, restored once the flow is done
+          const previousOverrides = this.pageOverrides.get(p);
+          const overrides: PageOverrides = { ...previousOverrides };
+          if (flow.blocking !== undefined) overrides.blocking = compileBlocking(flow.blocking);
+          if (flow.mocks !== undefined) overrides.mocks = flow.mocks === null ? null : compileMockRules(flow.mocks, PROJECT_ROOT);
+          if (flow.networkCapture !== undefined) overrides.networkCapture = validateNetworkCapture(flow.networkCapture);
+          const overridden = flow.blocking !== undefined || flow.mocks !== undefined || flow.networkCapture !== undefined;
+          if (overridden) {
+            this.pageOverrides.set(p, overrides);
+            await this.syncRequestInterception(p);
+          }
 
-          // Optional navigate
-          if (flow.url) {
-            const navTimeout = flow.navigationTimeoutMs ?? 90000;
-            this.networkRequests.set(p, []);
-            this.consoleMessages.set(p, []);
-            await p.goto(flow.url, { waitUntil: 'domcontentloaded', timeout: navTimeout });
+          try {
+            if (auth) await this.applyAuthToPage(p, auth, flow.url);
+
+            // Optional navigate
+            if (flow.url) {
+              const navTimeout = flow.navigationTimeoutMs ?? 90000;
+              this.networkRequests.set(p, []);
+              this.consoleMessages.set(p, []);
+              this.blockingStats.delete(p);
+              // Query-string API keys can only be attached to the navigation itself
+              const target = auth ? applyAuth(flow.url, { ...auth, cookies: [] }).url : flow.url;
+              await p.goto(target, { waitUntil: 'domcontentloaded', timeout: navTimeout });
+
+              const shouldWaitIdle = flow.waitForNetworkIdle ?? true;
+              if (shouldWaitIdle) {
+                const idleTime = flow.networkIdleTimeMs ?? 1000;
+                const idleTimeout = flow.networkIdleTimeoutMs ?? 30000;
+                try {
+                  await p.waitForNetworkIdle({ idleTime, timeout: idleTimeout });
+                } catch (e) {
+                  console.error('[Browser] Network idle timeout (browser_flow), proceeding anyway');
+                }
+              }
+
+              const stabilize = flow.stabilizeMs ?? 1500;
+              if (stabilize > 0) await new Promise(r => setTimeout(r, stabilize));
+            }
 
-            const shouldWaitIdle = flow.waitForNetworkIdle ?? true;
-            if (shouldWaitIdle) {
-              const idleTime = flow.networkIdleTimeMs ?? 1000;
-              const idleTimeout = flow.networkIdleTimeoutMs ?? 30000;
+            // Optional actions
+            const log: FlowStepLog[] = [];
+            if (flow.actions && flow.actions.length > 0) {
               try {
-                await p.waitForNetworkIdle({ idleTime, timeout: idleTimeout });
-              } catch (e) {
-                console.error('[Browser] Network idle timeout (browser_flow), proceeding anyway');
+                await this.runFlowSteps(p, flow.actions, log, '');
+              } catch (e: any) {
+                if (!(e instanceof FlowStepError)) throw e;
+                return {
+                  content: [
+                    { type: 'text', text: `Error: ${e.message}` },
+                    { type: 'text', text: JSON.stringify({ steps: log }, null, 2) }
+                  ],
+                  isError: true
+                };
               }
             }
 
-            const stabilize = flow.stabilizeMs ?? 1500;
-            if (stabilize > 0) await new Promise(r => setTimeout(r, stabilize));
-          }
+            const results = Array.isArray(flow.result) ? flow.result : [flow.result ?? { type: 'snapshot', mode: 'tree' }];
+            if (results.length === 0) throw new Error('result array must not be empty');
+            let cachedHtml: Promise<string> | null = null;
+            const html = () => (cachedHtml ??= p.content());
 
-          // Optional actions
-          if (flow.actions && flow.actions.length > 0) {
-            for (const action of flow.actions) {
-              await this.performBrowserAction(action);
+            const content: any[] = [];
+            for (const [i, result] of results.entries()) {
+              if (results.length > 1) content.push({ type: 'text', text: `--- result ${i + 1}/${results.length}: ${result.type} ---` });
+              try {
+                content.push(...(await this.buildFlowResult(p, result, html)));
+              } catch (e: any) {
+                // Keep the other results when one of several fails
+                if (results.length === 1) throw e;
+                content.push({ type: 'text', text: `Error: ${e.message}` });
+              }
             }
-          }
-
-          const result = flow.result ?? { type: 'snapshot', mode: 'tree' };
-
-          if (result.type === 'snapshot') {
-            const mode = result.mode ?? 'tree';
-            if (mode === 'html') {
-              const html = await p.content();
-              const startIndex = result.startIndex ?? 0;
-              const safeStart = Math.max(0, Math.floor(startIndex));
-              const defaultEnd = safeStart + 20000;
-              const safeEnd = Math.min(html.length, result.endIndex !== undefined ? Math.floor(result.endIndex) : defaultEnd);
-              const slice = html.slice(safeStart, safeEnd);
-              const remainingCharacters = Math.max(0, html.length - safeEnd);
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: JSON.stringify(
-                      {
-                        mode: 'html',
-                        totalLength: html.length,
-                        startIndex: safeStart,
-                        endIndex: safeEnd,
-                        remainingCharacters,
-                        content: slice
-                      },
-                      null,
-                      2
-                    )
-                  }
-                ]
-              };
+            if (log.length === 0) return { content };
+            return { content: [{ type: 'text', text: JSON.stringify({ steps: log }, null, 2) }, ...content] };
+          } finally {
+            if (auth) await this.clearAuthFromPage(p, auth);
+            if (overridden) {
+              if (previousOverrides) this.pageOverrides.set(p, previousOverrides);
+              else this.pageOverrides.delete(p);
+              await this.syncRequestInterception(p);
             }
-
-            const tree = await this.getAccessibilityTree(p);
-            return { content: [{ type: 'text', text: tree }] };
-          }
-
-          if (result.type === 'screenshot') {
-            const filePath = await this.takeScreenshot({
-              filename: result.filename,
-              fullPage: result.fullPage,
-              destinationFolder: result.destinationFolder
-            });
-            return { content: [{ type: 'text', text: `Screenshot saved: ${filePath}` }] };
-          }
-
-          if (result.type === 'links') {
-            const links = await p.evaluate(() =>
-              Array.from(document.querySelectorAll('a'))
-                .map(a => ({ text: a.innerText.trim(), href: (a as HTMLAnchorElement).href }))
-                .filter(l => l.href.startsWith('http'))
-            );
-            return { content: [{ type: 'text', text: JSON.stringify(links, null, 2) }] };
-          }
-
-          if (result.type === 'console') {
-            return { content: [{ type: 'text', text: JSON.stringify(this.consoleMessages.get(p) || [], null, 2) }] };
           }
-
-          if (result.type === 'network') {
-            const includeStatic = result.includeStatic ?? false;
-            const reqs = this.networkRequests.get(p) || [];
-            const filtered = includeStatic ? reqs : reqs.filter(r => !['image', 'font', 'stylesheet', 'media'].includes(r.resourceType));
-            return { content: [{ type: 'text', text: JSON.stringify(filtered, null, 2) }] };
-          }
-
-          throw new Error('Invalid browser_flow result type');
         } else if (toolName === 'batch_navigate') {
           const { urls } = args as any;
+          const session = this.getSession((args as any).session);
           const results = [];
           for (const url of urls) {
             try {
-              const p = await this.createNewPage();
+              const p = await this.createNewPage(session.name);
               await p.goto(url, { waitUntil: 'domcontentloaded', timeout: 90000 });
               try {
                 await p.waitForNetworkIdle({ idleTime: 1000, timeout: 30000 });
               } catch (e) {}
               await new Promise(r => setTimeout(r, 1500));
-              results.push({ url, status: 'success', tabIndex: this.pages.length - 1 });
+              results.push({ url, status: 'success', tabIndex: session.pages.length - 1 });
             } catch (e: any) {
               results.push({ url, status: 'error', error: e.message });
             }
           }
           return { content: [{ type: 'text', text: JSON.stringify(results, null, 2) }] };
         } else if (toolName === 'multi_search') {
-          const { queries } = args as any;
-          const apiKey = process.env.APIKEY_GOOGLE_SEARCH;
-          const cx = process.env.CX_GOOGLE_SEARCH;
-          if (!apiKey || !cx) throw new Error('Google Search API keys not configured');
+          const { queries, provider, num, language, region, site, dateRestrict, cache, cacheTtl } = args as any;
+          if (!Array.isArray(queries) || queries.length === 0) throw new Error('queries must be a non-empty array of strings');
+          if (!isValidCacheOptions(args)) throw new Error('cache must be "use", "bypass" or "refresh" and cacheTtl a non-negative number');
+          // Resolve once so an unknown/unconfigured provider fails the call instead of every query
+          const providerName = resolveSearchProvider(provider).name;
 
           const searchResults = await Promise.all(queries.map(async (query: string) => {
-            const url = new URL('https://www.googleapis.com/customsearch/v1');
-            url.searchParams.set('key', apiKey);
-            url.searchParams.set('cx', cx);
-            url.searchParams.set('q', query);
-            const response = await fetch(url.toString());
-            const data = await response.json() as any;
-            return {
-              query,
-              results: (data.items || []).map((item: any) => ({ title: item.title, link: item.link, snippet: item.snippet }))
-            };
+            try {
+              return await cachedSearch({ query, num, language, region, site, dateRestrict }, providerName, { cache, cacheTtl });
+            } catch (e: any) {
+              // One failing query (quota, bad key, ...) is reported without hiding the others
+              return { provider: providerName, query, results: [], error: e.message };
+            }
           }));
           return { content: [{ type: 'text', text: JSON.stringify(searchResults, null, 2) }] };
+        } else if (toolName === 'research') {
+          if (!isValidResearchOptions(args)) throw new Error('Invalid args: research needs a non-empty "query"');
+          if (!isValidCacheOptions(args)) throw new Error('cache must be "use", "bypass" or "refresh" and cacheTtl a non-negative number');
+          const { cache, cacheTtl } = args as any;
+          const result = await research(args, {
+            search: (query, num, provider) => cachedSearch({ query, num }, provider, { cache, cacheTtl }),
+            render: (url, timeout) => this.renderPage(url, timeout, (args as any).session)
+          });
+          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+        } else if (toolName === 'search_cache') {
+          const { action = 'list', query, provider, key, expiredOnly, limit = 50 } = args as any;
+          if (action === 'list') {
+            const entries = listSearchCache(limit, query);
+            return { content: [{ type: 'text', text: JSON.stringify({ count: entries.length, entries }, null, 2) }] };
+          }
+          if (action === 'clear') {
+            const removed = clearSearchCache({ query, provider, key, expiredOnly });
+            return { content: [{ type: 'text', text: JSON.stringify({ removed }, null, 2) }] };
+          }
+          throw new Error(`Unknown search_cache action: ${action}`);
         } else if (toolName === 'browser_snapshot') {
-          const { mode = 'tree', startIndex = 0, endIndex } = args as any;
+          const { mode = 'tree', startIndex = 0, endIndex, cursor, chunkSize, maxDepth, interactiveOnly, root } = args as any;
           if (mode === 'html') {
             const html = await page.content();
-            const safeStart = Math.max(0, Math.floor(startIndex));
-            const defaultEnd = safeStart + 20000;
-            const safeEnd = Math.min(html.length, endIndex !== undefined ? Math.floor(endIndex) : defaultEnd);
-            const slice = html.slice(safeStart, safeEnd);
-            const remainingCharacters = Math.max(0, html.length - safeEnd);
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(
-                    {
-                      mode: 'html',
-                      totalLength: html.length,
-                      startIndex: safeStart,
-                      endIndex: safeEnd,
-                      remainingCharacters,
-                      content: slice
-                    },
-                    null,
-                    2
-                  )
-                }
-              ]
-            };
+            const slice = sliceContent(html, startIndex, endIndex);
+            return { content: [{ type: 'text', text: JSON.stringify({ mode: 'html', ...slice }, null, 2) }] };
+          }
+          if (mode === 'markdown') {
+            const chunk = htmlToMarkdownChunk(await page.content(), page.url(), cursor, chunkSize);
+            return { content: [{ type: 'text', text: JSON.stringify({ mode: 'markdown', url: page.url(), ...chunk }, null, 2) }] };
+          }
+          if (mode === 'ax') {
+            const tree = await this.getAxTree(page, { maxDepth, interactiveOnly, root });
+            return { content: [{ type: 'text', text: tree }] };
           }
           const tree = await this.getAccessibilityTree(page);
           return { content: [{ type: 'text', text: tree }] };
+        } else if (toolName === 'browser_article') {
+          const { startIndex, endIndex } = (args || {}) as any;
+          const article = await this.getArticle(page, startIndex, endIndex);
+          return { content: [{ type: 'text', text: JSON.stringify(article, null, 2) }] };
         } else if (toolName === 'browser_action') {
-          const result = await this.performBrowserAction(args as any);
+          const result = await this.performBrowserAction(page, args as any);
           return { content: [{ type: 'text', text: result }] };
         } else if (toolName === 'take_screenshot') {
-          const filePath = await this.takeScreenshot(args as any);
-          return { content: [{ type: 'text', text: `Screenshot saved: ${filePath}` }] };
+          const screenshotArgs = (args || {}) as ScreenshotArgs;
+          return { content: this.screenshotContent(await this.takeScreenshot(page, screenshotArgs), screenshotArgs.inline === true) };
         } else if (toolName === 'browser_network_requests') {
-          const { includeStatic } = args as any;
-          const reqs = this.networkRequests.get(page) || [];
-          const filtered = includeStatic ? reqs : reqs.filter(r => !['image', 'font', 'stylesheet', 'media'].includes(r.resourceType));
-          return { content: [{ type: 'text', text: JSON.stringify(filtered, null, 2) }] };
+          const { includeStatic, harFolder } = args as any;
+          return { content: [{ type: 'text', text: JSON.stringify(await this.networkReport(page, !!includeStatic, harFolder), null, 2) }] };
         } else if (toolName === 'browser_console_messages') {
           return { content: [{ type: 'text', text: JSON.stringify(this.consoleMessages.get(page) || [], null, 2) }] };
         } else if (toolName === 'browser_links') {
           const links = await page.evaluate(() => Array.from(document.querySelectorAll('a')).map(a => ({ text: a.innerText.trim(), href: a.href })).filter(l => l.href.startsWith('http')));
           return { content: [{ type: 'text', text: JSON.stringify(links, null, 2) }] };
         } else if (toolName === 'browser_configure') {
-          const { proxy, userAgent, viewport } = args as any;
+          const { proxy, userAgent, viewport, blocking, mocks, networkCapture } = args as any;
+          const session = this.getSession((args as any).session);
           let restartNeeded = false;
 
-          if (proxy !== undefined && proxy !== this.proxy) {
-            this.proxy = proxy;
-            restartNeeded = true;
+          if (networkCapture !== undefined) this.networkCapture = validateNetworkCapture(networkCapture);
+
+          if (blocking !== undefined || mocks !== undefined) {
+            if (blocking !== undefined) this.blocking = compileBlocking(blocking);
+            if (mocks !== undefined) this.mocks = mocks === null ? null : compileMockRules(mocks, PROJECT_ROOT);
+            for (const page of this.allPages()) await this.syncRequestInterception(page);
           }
-          if (userAgent !== undefined && userAgent !== this.userAgent) {
-            this.userAgent = userAgent;
+
+          if (proxy !== undefined && proxy !== session.proxy) {
+            session.proxy = proxy || null;
             restartNeeded = true;
           }
-          if (restartNeeded && this.browser) {
-            await this.browser.close();
-            this.browser = null;
-            this.pages = [];
-            this.activePageIndex = 0;
+          if (userAgent !== undefined && userAgent !== session.userAgent) {
+            session.userAgent = userAgent || null;
+            // The default session keeps its restart semantics; other sessions update open tabs in place
+            if (session.mode === 'default') restartNeeded = true;
+            else for (const page of session.pages) await page.setUserAgent(userAgent || await page.browser().userAgent());
           }
+          const running = session.mode === 'default' ? !!this.browser : !!(session.browser || session.context);
+          if (restartNeeded && running) await this.closeSession(session);
 
           if (viewport) {
-            for (const page of this.pages) {
+            for (const page of session.pages) {
               await page.setViewport(viewport);
             }
           }
           return { content: [{ type: 'text', text: restartNeeded ? 'Configuration updated (Browser restarted)' : 'Configuration updated' }] };
         } else if (toolName === 'parse_document') {
-          const { url } = args as any;
-          const res = await fetch(url);
-          const data = await pdf(Buffer.from(await res.arrayBuffer()));
-          return { content: [{ type: 'text', text: data.text }] };
+          if (!isValidParseDocumentArgs(args)) throw new Error('Invalid args: parse_document needs a "url" (or local path)');
+          const { content, ...document } = await parseDocument(args);
+          const { startIndex, endIndex } = args as any;
+          return { content: [{ type: 'text', text: JSON.stringify({ ...document, ...sliceContent(content, startIndex, endIndex) }, null, 2) }] };
         } else if (toolName === 'fetch_api') {
           if (!isValidFetchApiArgs(args)) throw new Error('Invalid args');
-          return { content: [{ type: 'text', text: JSON.stringify(await fetchApi(args as any), null, 2) }] };
+          const result = args.paginate ? await fetchApiPages(args) : await fetchApi(args);
+          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+        } else if (toolName === 'graphql') {
+          if (!isValidGraphqlArgs(args)) throw new Error('Invalid args: graphql needs "url" and "query" (or "introspect": true)');
+          return { content: [{ type: 'text', text: JSON.stringify(await graphqlRequest(args), null, 2) }] };
         } else if (toolName === 'google_search') {
-          const { query, num, start, language, region, site, dateRestrict } = args as any;
-          const apiKey = process.env.APIKEY_GOOGLE_SEARCH;
-          const cx = process.env.CX_GOOGLE_SEARCH;
-          if (!apiKey || !cx) throw new Error('Google Search API keys not configured');
-
-          const url = new URL('https://www.googleapis.com/customsearch/v1');
-          url.searchParams.set('key', apiKey);
-          url.searchParams.set('cx', cx);
-          url.searchParams.set('q', query);
-          if (num) url.searchParams.set('num', String(num));
-          if (start) url.searchParams.set('start', String(start));
-          if (language) url.searchParams.set('lr', `lang_${language}`);
-          if (region) url.searchParams.set('cr', `country${region}`);
-          if (site) url.searchParams.set('siteSearch', site);
-          if (dateRestrict) url.searchParams.set('dateRestrict', dateRestrict);
-
-          const response = await fetch(url.toString());
-          if (!response.ok) throw new Error(`Google Search error: ${response.statusText}`);
-          const data = await response.json() as any;
-          const results = (data.items || []).map((item: any) => ({
-            title: item.title,
-            link: item.link,
-            snippet: item.snippet
-          }));
-          return { content: [{ type: 'text', text: JSON.stringify(results, null, 2) }] };
+          const { query, num, start, language, region, site, dateRestrict, provider, cache, cacheTtl } = args as any;
+          if (!isValidCacheOptions(args)) throw new Error('cache must be "use", "bypass" or "refresh" and cacheTtl a non-negative number');
+          const response = await cachedSearch({ query, num, start, language, region, site, dateRestrict }, provider, { cache, cacheTtl });
+          return { content: [{ type: 'text', text: JSON.stringify(response, null, 2) }] };
         } else if (toolName === 'smart_command') {
-          const { command } = args as any;
-          let query = command;
+          const { command, dryRun } = args as any;
+          if (typeof command !== 'string' || !command.trim()) throw new Error('command must be a non-empty string');
+          let translated = command;
           const langCode = franc(command);
           
           if (langCode !== 'eng' && langCode !== 'und' && translate) {
             try {
-              query = await translate(command, 'en');
+              translated = await translate(command, 'en');
             } catch (e) {
               console.error('Translation failed, using original command');
             }
           }
 
-          // Simple enrichment
-          if (!query.toLowerCase().includes('best') && !query.toLowerCase().includes('tips')) {
-            query += ' best tips';
-          }
-
-          // Internal call to google_search logic
-          const apiKey = process.env.APIKEY_GOOGLE_SEARCH;
-          const cx = process.env.CX_GOOGLE_SEARCH;
-          if (!apiKey || !cx) throw new Error('Google Search API keys not configured');
-
-          const url = new URL('https://www.googleapis.com/customsearch/v1');
-          url.searchParams.set('key', apiKey);
-          url.searchParams.set('cx', cx);
-          url.searchParams.set('q', query);
-          
-          const response = await fetch(url.toString());
-          const data = await response.json() as any;
-          const results = (data.items || []).map((item: any) => ({
-            title: item.title,
-            link: item.link,
-            snippet: item.snippet
-          }));
+          const routed = routeCommand(translated, command);
+          const routing = { language: langCode, ...(translated !== command ? { translated } : {}), ...routed };
+          if (dryRun) return { content: [{ type: 'text', text: JSON.stringify(routing, null, 2) }] };
 
-          return {
-            content: [{
-              type: 'text',
-              text: `Detected language: ${langCode}\nEnriched query: ${query}\n\nResults:\n${JSON.stringify(results, null, 2)}`
-            }]
-          };
+          const result = await callTool(routed.tool, routed.args);
+          return { ...result, content: [{ type: 'text', text: JSON.stringify(routing, null, 2) }, ...result.content] };
         } else if (toolName === 'download_file') {
-          const { url, destinationFolder, filename } = args as any;
+          const { url, destinationFolder, filename, profile } = args as any;
           // Resolve relative paths against PROJECT_ROOT to keep data central
           const destPath = path.isAbsolute(destinationFolder)
             ? destinationFolder
             : path.resolve(PROJECT_ROOT, destinationFolder);
           if (!fs.existsSync(destPath)) fs.mkdirSync(destPath, { recursive: true });
           
-          const response = await fetch(url);
+          const request = applyAuth(url, profile ? await resolveAuth(profile) : null);
+          const response = await fetch(request.url, { headers: request.headers });
           if (!response.ok) throw new Error(`Failed to fetch file: ${response.statusText}`);
           
           const finalFilename = filename || path.basename(new URL(url).pathname) || 'downloaded_file';
@@ -964,33 +1985,392 @@ class WebCurlServer {
       } catch (error: any) {
         return { content: [{ type: 'text', text: `Error: ${error.message}` }], isError: true };
       }
-    });
+    };
+
+    this.server.setRequestHandler(CallToolRequestSchema, (request) => callTool(request.params.name, request.params.arguments));
   }
 
   private async resolveSelector(selector: string): Promise<string> {
     if (selector.startsWith('ref:')) {
       const ref = selector.substring(4);
-      return `[data-mcp-ref="${ref}"]`;
+      return `pierce/[data-mcp-ref="${ref}"]`;
     }
     return selector;
   }
 
-  private async performBrowserAction(args: BrowserActionArgs): Promise<string> {
-    const page = await this.getPage();
-    const timeout = args.timeout || 30000;
-    const selector = args.selector ? await this.resolveSelector(args.selector) : null;
+  // Waits for an element by CSS selector or ref. Refs may live in shadow roots or
+  // same-process iframes (AX snapshots), so they are searched across all frames.
+  // When a ref's attribute is gone (e.g. SPA re-render), the element is re-located
+  // by its recorded fingerprint; refs give up after 5s with a "stale ref" error.
+  private async waitForElement(page: Page, selector: string, timeout: number): Promise<ElementHandle<Element>> {
+    const resolved = await this.resolveSelector(selector);
+    if (!selector.startsWith('ref:')) {
+      const handle = await page.waitForSelector(resolved, { timeout });
+      if (!handle) throw new Error(`Element not found: ${selector}`);
+      return handle;
+    }
+
+    const ref = selector.substring(4);
+    const fingerprint = this.refRegistry.get(page)?.get(ref);
+    const deadline = Date.now() + Math.min(timeout, 5000);
+    let candidates: RefCandidate[] = [];
+    while (true) {
+      for (const frame of page.frames()) {
+        const handle = await frame.$(resolved).catch(() => null);
+        if (handle) return handle;
+      }
+
+      if (fingerprint) {
+        candidates = [];
+        for (const frame of page.frames()) {
+          const located = await relocateRef(frame, ref, fingerprint).catch(() => null);
+          if (!located) continue;
+          if (located.found) {
+            const handle = await frame.$(resolved).catch(() => null);
+            if (handle) return handle;
+          }
+          candidates.push(...located.candidates);
+        }
+      }
+
+      if (Date.now() >= deadline) throw staleRefError(ref, fingerprint, candidates);
+      await new Promise(r => setTimeout(r, 200));
+    }
+  }
+
+  // Runs flow steps in order, recording one log entry per executed step.
+  // A failing non-optional step throws FlowStepError, which aborts the flow.
+  private async runFlowSteps(page: Page, steps: BrowserFlowStep[], log: FlowStepLog[], prefix: string) {
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      const id = `${prefix}${i + 1}`;
+      const entry: FlowStepLog = { step: id, action: String(step?.action), status: 'ok', durationMs: 0 };
+      const started = Date.now();
+      log.push(entry);
+
+      try {
+        if (step.action === 'if') {
+          if (!step.condition || !Array.isArray(step.then)) throw new Error('"if" requires "condition" and "then"');
+          const matched = await this.checkFlowCondition(page, step.condition);
+          entry.output = { condition: matched ? 'true' : 'false' };
+          const branch = matched ? step.then : step.else;
+          if (branch) await this.runFlowSteps(page, branch, log, `${id}.${matched ? 'then' : 'else'}.`);
+        } else if (step.action === 'repeat') {
+          if (!step.until || !Array.isArray(step.steps)) throw new Error('"repeat" requires "steps" and "until"');
+          const maxIterations = step.maxIterations ?? 10;
+          let iterations = 0;
+          let satisfied = false;
+          while (true) {
+            if (await this.checkFlowCondition(page, step.until)) {
+              satisfied = true;
+              break;
+            }
+            if (iterations >= maxIterations) break;
+            iterations++;
+            await this.runFlowSteps(page, step.steps, log, `${id}[${iterations}].`);
+          }
+          entry.output = { iterations, stoppedBy: satisfied ? 'until' : 'maxIterations' };
+          if (!satisfied) throw new Error(`"until" condition still false after ${maxIterations} iterations`);
+        } else if (step.action === 'assert') {
+          if (!step.condition) throw new Error('"assert" requires "condition"');
+          if (!(await this.checkFlowCondition(page, step.condition))) {
+            throw new Error(step.message || `Assertion failed: ${JSON.stringify(step.condition)}`);
+          }
+        } else if (step.action === 'fill_form') {
+          entry.output = await this.fillForm(page, validateBrowserAction(step));
+        } else {
+          entry.output = await this.performBrowserAction(page, step);
+        }
+        entry.durationMs = Date.now() - started;
+      } catch (e: any) {
+        entry.durationMs = Date.now() - started;
+        entry.error = e.message;
+        if (step.optional) {
+          entry.status = 'optional_failed';
+          continue;
+        }
+        entry.status = 'failed';
+        // Nested failures already carry the failing step's id
+        if (e instanceof FlowStepError) throw e;
+        throw new FlowStepError(`Step ${id} (${entry.action}) failed: ${e.message}`);
+      }
+    }
+  }
+
+  private async checkFlowCondition(page: Page, condition: FlowCondition): Promise<boolean> {
+    const matches = (value: string, pattern: string) => {
+      const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+      return regex ? new RegExp(regex[1], regex[2]).test(value) : value.includes(pattern);
+    };
+
+    const check = async () => {
+      if (condition.url !== undefined && !matches(page.url(), condition.url)) return false;
+      if (condition.text !== undefined) {
+        const text = await page.evaluate(() => document.body?.innerText || '');
+        if (!matches(text, condition.text)) return false;
+      }
+      if (condition.selector !== undefined) {
+        const count = await this.countElements(page, condition.selector);
+        if (condition.absent) return count === 0;
+        if (condition.count !== undefined) return count === condition.count;
+        if (condition.minCount !== undefined && count < condition.minCount) return false;
+        if (condition.maxCount !== undefined && count > condition.maxCount) return false;
+        if (condition.minCount === undefined && condition.maxCount === undefined && count === 0) return false;
+      }
+      return true;
+    };
 
-    if (args.action === 'click') { await page.waitForSelector(selector!, { timeout }); await page.click(selector!); return 'Clicked'; }
-    if (args.action === 'type') { await page.waitForSelector(selector!, { timeout }); await page.type(selector!, args.text!); return 'Typed'; }
-    if (args.action === 'scroll') { await page.evaluate((d) => window.scrollBy(0, d === 'up' ? -500 : 500), args.direction); return 'Scrolled'; }
+    const deadline = Date.now() + (condition.timeout ?? 0);
+    while (true) {
+      if (await check()) return true;
+      if (Date.now() >= deadline) return false;
+      await new Promise(r => setTimeout(r, 250));
+    }
+  }
+
+  private async countElements(page: Page, selector: string): Promise<number> {
+    const resolved = await this.resolveSelector(selector);
+    // Counted in page context: conditions run on every repeat iteration and must not leave handles behind
+    if (!selector.startsWith('ref:')) return page.$$eval(resolved, els => els.length);
+    let count = 0;
+    for (const frame of page.frames()) {
+      count += await frame.$$eval(resolved, els => els.length).catch(() => 0);
+    }
+    return count;
+  }
+
+  private async performBrowserAction(page: Page, rawArgs: BrowserActionArgs): Promise<string> {
+    const args = validateBrowserAction(rawArgs);
+    const timeout = args.timeout || 30000;
+    const element = () => this.waitForElement(page, args.selector!, timeout);
+
+    if (args.action === 'click') { await (await element()).click(); return 'Clicked'; }
+    if (args.action === 'double_click') { await (await element()).click({ count: 2 }); return 'Double-clicked'; }
+    if (args.action === 'right_click') { await (await element()).click({ button: 'right' }); return 'Right-clicked'; }
+    if (args.action === 'type') {
+      const el = await element();
+      if (args.clear) await this.clearField(page, el);
+      await el.type(args.text!);
+      return 'Typed';
+    }
+    if (args.action === 'clear') { await this.clearField(page, await element()); return 'Cleared'; }
+    if (args.action === 'focus') { await (await element()).focus(); return 'Focused'; }
+    if (args.action === 'select') {
+      const el = await element();
+      // Accept option values or visible labels
+      const optionValues = await el.evaluate((node, wanted: string[]) => {
+        if (!(node instanceof HTMLSelectElement)) return null;
+        const options = Array.from(node.options);
+        return wanted.map(w => options.find(o => o.value === w) ?? options.find(o => o.label.trim() === w || o.text.trim() === w))
+          .filter((o): o is HTMLOptionElement => !!o)
+          .map(o => o.value);
+      }, args.values!);
+      if (optionValues === null) throw new Error(`Element is not a <select>: ${args.selector}`);
+      if (optionValues.length === 0) throw new Error(`No options matching ${JSON.stringify(args.values)} in ${args.selector}`);
+      const selected = await (el as ElementHandle<HTMLSelectElement>).select(...optionValues);
+      return `Selected ${JSON.stringify(selected)}`;
+    }
+    if (args.action === 'check' || args.action === 'uncheck') {
+      const el = await element();
+      const want = args.action === 'check';
+      const isChecked = () => el.evaluate(node =>
+        node instanceof HTMLInputElement ? node.checked : node.getAttribute('aria-checked') === 'true'
+      );
+      if (await isChecked() === want) return want ? 'Already checked' : 'Already unchecked';
+      const box = await el.boundingBox();
+      if (box && box.width > 0 && box.height > 0) {
+        await el.click();
+      } else {
+        // Custom checkboxes hide the real input: click its label, else toggle it in page context
+        const label = (await el.evaluateHandle(node => (node instanceof HTMLInputElement && node.labels?.[0]) || node.closest('label'))).asElement() as ElementHandle<Element> | null;
+        const labelBox = label ? await label.boundingBox() : null;
+        if (label && labelBox && labelBox.width > 0 && labelBox.height > 0) {
+          await label.click();
+        } else {
+          await el.evaluate((node, checked) => {
+            (node as HTMLElement).click();
+            if (node instanceof HTMLInputElement && node.checked !== checked) {
+              node.checked = checked;
+              node.dispatchEvent(new Event('input', { bubbles: true }));
+              node.dispatchEvent(new Event('change', { bubbles: true }));
+            }
+          }, want);
+        }
+      }
+      if (await isChecked() !== want) throw new Error(`Could not ${args.action} ${args.selector}`);
+      return want ? 'Checked' : 'Unchecked';
+    }
+    if (args.action === 'upload') {
+      const files = args.files!.map(f => (path.isAbsolute(f) ? f : path.resolve(PROJECT_ROOT, f)));
+      const missing = files.filter(f => !fs.existsSync(f));
+      if (missing.length > 0) throw new Error(`Files not found: ${missing.join(', ')}`);
+      const el = await element();
+      const isFileInput = await el.evaluate(node => node instanceof HTMLInputElement && node.type === 'file');
+      if (isFileInput) {
+        await (el as ElementHandle<HTMLInputElement>).uploadFile(...files);
+      } else {
+        // Custom upload buttons open a native file chooser
+        const [chooser] = await Promise.all([page.waitForFileChooser({ timeout }), el.click()]);
+        await chooser.accept(files);
+      }
+      return `Uploaded ${files.length} file(s)`;
+    }
+    if (args.action === 'drag') {
+      const source = await element();
+      const target = await this.waitForElement(page, args.target!, timeout);
+      await source.drag(target);
+      await target.drop(source);
+      return 'Dragged';
+    }
+    if (args.action === 'scroll') {
+      const delta = (args.direction === 'up' ? -1 : 1) * (args.amount ?? 500);
+      if (args.selector) {
+        await (await element()).evaluate((node, d) => node.scrollBy(0, d), delta);
+      } else {
+        await page.evaluate((d) => window.scrollBy(0, d), delta);
+      }
+      return 'Scrolled';
+    }
+    if (args.action === 'scroll_to') { await (await element()).scrollIntoView(); return 'Scrolled into view'; }
     if (args.action === 'press_key') { await page.keyboard.press(args.key as any); return 'Pressed'; }
-    if (args.action === 'hover') { await page.waitForSelector(selector!, { timeout }); await page.hover(selector!); return 'Hovered'; }
-    if (args.action === 'waitForSelector') { await page.waitForSelector(selector!, { timeout }); return 'Found'; }
+    if (args.action === 'hover') { await (await element()).hover(); return 'Hovered'; }
+    if (args.action === 'waitForSelector') { await element(); return 'Found'; }
+    if (args.action === 'fill_form') { return JSON.stringify(await this.fillForm(page, args), null, 2); }
     return 'Action completed';
   }
 
-  private async takeScreenshot(args: ScreenshotArgs): Promise<string> {
-    const page = await this.getPage();
+  // Resolves each field by accessible label and applies the interaction that fits its input type
+  private async fillForm(page: Page, args: BrowserActionArgs) {
+    const timeout = args.timeout || 30000;
+    const refs = this.refsFor(page);
+    const report: FormFieldReport[] = [];
+    let lastField: { frame: Frame; ref: string } | null = null;
+
+    for (const [field, value] of Object.entries(args.fields!)) {
+      // Best match across all frames, so an exact label in an iframe beats a partial hit in the main frame
+      let match: FormFieldMatch | null = null;
+      let frame: Frame | null = null;
+      for (const f of page.frames()) {
+        const candidate = await locateFormField(f, field, value).catch(() => null);
+        if (candidate && (!match || candidate.score > match.score)) {
+          match = candidate;
+          frame = f;
+        }
+      }
+      if (!match || !frame) {
+        report.push({ field, status: 'not_found' });
+        continue;
+      }
+
+      refs.set(match.ref, match.fingerprint);
+      const selector = `ref:${match.ref}`;
+      const matched = { label: match.label, matchedBy: match.matchedBy, type: match.type, ref: match.ref };
+      try {
+        if (match.kind === 'select') {
+          await this.performBrowserAction(page, { action: 'select', selector, values: Array.isArray(value) ? value : [String(value)], timeout });
+        } else if (match.kind === 'checkbox') {
+          const on = value === true || ['true', 'yes', 'on', '1', 'checked'].includes(String(value).toLowerCase());
+          await this.performBrowserAction(page, { action: on ? 'check' : 'uncheck', selector, timeout });
+        } else if (match.kind === 'radio') {
+          await this.performBrowserAction(page, { action: 'check', selector, timeout });
+        } else if (match.kind === 'file') {
+          await this.performBrowserAction(page, { action: 'upload', selector, files: Array.isArray(value) ? value : [String(value)], timeout });
+        } else if (match.kind === 'value') {
+          // Date/time/color/range inputs ignore typed text in many locales, so set the value directly
+          const el = await this.waitForElement(page, selector, timeout);
+          await el.evaluate((node, v) => {
+            const input = node as HTMLInputElement;
+            input.value = v;
+            input.dispatchEvent(new Event('input', { bubbles: true }));
+            input.dispatchEvent(new Event('change', { bubbles: true }));
+          }, String(value));
+        } else {
+          await this.performBrowserAction(page, { action: 'type', selector, text: String(value), clear: true, timeout });
+        }
+        report.push({ field, status: 'set', matched, value });
+        lastField = { frame, ref: match.ref };
+      } catch (e: any) {
+        report.push({ field, status: 'error', matched, error: e.message });
+      }
+    }
+
+    let submitted: string | null = null;
+    if (typeof args.submit === 'string') {
+      await this.performBrowserAction(page, { action: 'click', selector: args.submit, timeout });
+      submitted = args.submit;
+    } else if (args.submit) {
+      const frame = lastField?.frame ?? page.mainFrame();
+      const control = await locateSubmitControl(frame, lastField?.ref ?? null);
+      if (control) {
+        refs.set(control.ref, control.fingerprint);
+        await this.performBrowserAction(page, { action: 'click', selector: `ref:${control.ref}`, timeout });
+        submitted = `ref:${control.ref}`;
+      } else if (await requestFormSubmit(frame, lastField?.ref ?? null)) {
+        submitted = 'form.requestSubmit()';
+      } else {
+        throw new Error('fill_form: no form or submit button found to submit');
+      }
+    }
+
+    return { fields: report, submitted };
+  }
+
+  // Clears inputs through the keyboard so framework change handlers fire
+  private async clearField(page: Page, el: ElementHandle<Element>) {
+    await el.focus();
+    await el.evaluate(node => {
+      if (node instanceof HTMLInputElement || node instanceof HTMLTextAreaElement) node.select();
+      else if ((node as HTMLElement).isContentEditable) document.getSelection()?.selectAllChildren(node);
+    });
+    await page.keyboard.press('Backspace');
+    await el.evaluate(node => {
+      if ((node instanceof HTMLInputElement || node instanceof HTMLTextAreaElement) && node.value !== '') {
+        node.value = '';
+        node.dispatchEvent(new Event('input', { bubbles: true }));
+        node.dispatchEvent(new Event('change', { bubbles: true }));
+      }
+    });
+  }
+
+  private screenshotContent(shot: ScreenshotResult, inline: boolean): any[] {
+    const summary = `${shot.filePath ? `Screenshot saved: ${shot.filePath}` : 'Screenshot captured'} (${shot.width}x${shot.height}, ${shot.mimeType})`;
+    const content: any[] = [{ type: 'text', text: summary }];
+    if (inline) content.push({ type: 'image', data: shot.data, mimeType: shot.mimeType });
+    return content;
+  }
+
+  // Waits until the page is visually stable enough to capture
+  private async settlePage(page: Page, strategy: NonNullable<ScreenshotArgs['settle']>, settleMs: number) {
+    if (strategy === 'none') return;
+    if (strategy === 'delay') {
+      await new Promise(resolve => setTimeout(resolve, settleMs));
+      return;
+    }
+    try {
+      await page.waitForNetworkIdle({ idleTime: 500, timeout: settleMs });
+    } catch (e) {
+      console.error('[Browser] Network idle timeout before screenshot, proceeding anyway');
+    }
+    if (strategy === 'auto') {
+      // Web fonts loaded and two frames painted
+      await page.evaluate(async () => {
+        await Promise.race([document.fonts?.ready, new Promise(r => setTimeout(r, 1000))]);
+        await new Promise(r => requestAnimationFrame(() => requestAnimationFrame(r)));
+      }).catch(() => {});
+    }
+  }
+
+  private async takeScreenshot(page: Page, args: ScreenshotArgs): Promise<ScreenshotResult> {
+    const format = args.format ?? 'png';
+    if (!['png', 'jpeg', 'webp'].includes(format)) throw new Error('format must be png, jpeg or webp');
+    if (args.quality !== undefined) {
+      if (format === 'png') throw new Error('quality is only supported for jpeg and webp');
+      if (args.quality < 0 || args.quality > 100) throw new Error('quality must be between 0 and 100');
+    }
+    if (args.selector && args.clip) throw new Error('Use either selector or clip, not both');
+    if (args.maxDimension !== undefined && args.maxDimension <= 0) throw new Error('maxDimension must be positive');
+    const save = args.save !== false;
+    if (!save && !args.inline) throw new Error('Nothing to return: enable save or inline');
     
     let destDir = this.SCREENSHOT_DIR;
     if (args.destinationFolder) {
@@ -1018,32 +2398,61 @@ class WebCurlServer {
       }
     }
 
-    // Auto-create directory if it doesn't exist
-    if (!fs.existsSync(destDir)) {
-      try {
-        fs.mkdirSync(destDir, { recursive: true });
-      } catch (e: any) {
-        throw new Error(`Failed to create directory: ${e.message}`);
+    if (save) {
+      // Auto-create directory if it doesn't exist
+      if (!fs.existsSync(destDir)) {
+        try {
+          fs.mkdirSync(destDir, { recursive: true });
+        } catch (e: any) {
+          throw new Error(`Failed to create directory: ${e.message}`);
+        }
+      }
+
+      // Track custom directory for cleanup
+      if (destDir !== this.SCREENSHOT_DIR) {
+        this.customScreenshotDirs.add(destDir);
       }
     }
 
-    // Track custom directory for cleanup
-    if (destDir !== this.SCREENSHOT_DIR) {
-      this.customScreenshotDirs.add(destDir);
+    const extension = format === 'jpeg' ? 'jpg' : format;
+    const filePath = save ? path.join(destDir, args.filename || `screenshot-${Date.now()}.${extension}`) : null;
+
+    await this.settlePage(page, args.settle ?? 'auto', args.settleMs ?? 2000);
+
+    // Work out the capture region in document coordinates so it can be scaled down
+    let region = args.clip ? { ...args.clip } : null;
+    if (args.selector) {
+      const el = await this.waitForElement(page, args.selector, 10000);
+      await el.scrollIntoView();
+      const box = await el.boundingBox();
+      if (!box || box.width === 0 || box.height === 0) throw new Error(`Element is not visible: ${args.selector}`);
+      const scroll = await page.evaluate(() => ({ x: window.scrollX, y: window.scrollY }));
+      region = { x: box.x + scroll.x, y: box.y + scroll.y, width: box.width, height: box.height };
+    }
+    if (!region && args.maxDimension) {
+      region = await page.evaluate((full) => full
+        ? { x: 0, y: 0, width: document.documentElement.scrollWidth, height: document.documentElement.scrollHeight }
+        : { x: window.scrollX, y: window.scrollY, width: window.innerWidth, height: window.innerHeight }, args.fullPage !== false);
     }
 
-    const filePath = path.join(destDir, args.filename || `screenshot-${Date.now()}.png`);
-    
-    // Critical stabilization delay for Ubuntu Server rendering
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    await page.screenshot({
-      path: filePath as any,
-      fullPage: args.fullPage !== false,
-      type: 'png',
-      omitBackground: false
+    const scale = region && args.maxDimension ? Math.min(1, args.maxDimension / Math.max(region.width, region.height)) : 1;
+    const image = await page.screenshot({
+      path: (filePath ?? undefined) as any,
+      type: format,
+      quality: args.quality,
+      omitBackground: false,
+      ...(region
+        ? { clip: { ...region, scale }, captureBeyondViewport: true }
+        : { fullPage: args.fullPage !== false })
     });
-    return filePath;
+
+    const size = region
+      ? { width: Math.round(region.width * scale), height: Math.round(region.height * scale) }
+      : await page.evaluate((full) => full
+        ? { width: document.documentElement.scrollWidth, height: document.documentElement.scrollHeight }
+        : { width: window.innerWidth, height: window.innerHeight }, args.fullPage !== false);
+
+    return { filePath, data: Buffer.from(image).toString('base64'), mimeType: `image/${format}`, ...size };
   }
 
   async run() {
@@ -0,0 +1,339 @@
+// JSON projection for fetch_api: a JSONPath / JMESPath-style `select`, array
+// paging on a chosen path, and field allow/deny lists. Applied to the parsed
+// body before `limit`, so the agent gets small but still valid JSON.
+//
+// Supported path syntax (leading `$` optional):
+//   a.b.c   a['b c']   a[0]   a[-1]   a[*]   a.*   a[1:5]   a[::2]
+//   ..name (recursive descent)   a[0,2]   a['x','y']
+//   a[?(@.price < 10)]   a[?status == 'open']   a[?tags]   a[?(@.name =~ /^re/i)]
+
+export interface JsonProjection {
+  /** Path expression selecting part of the body */
+  select?: string;
+  /** Dotted field paths to keep (e.g. "id", "user.name"); arrays are traversed transparently */
+  include?: string[];
+  /** Dotted field paths to remove */
+  exclude?: string[];
+  /** Page an array inside the (selected) value */
+  page?: { path?: string; offset?: number; count?: number };
+}
+
+export interface ProjectionReport {
+  select?: string;
+  /** Number of nodes the select expression matched */
+  matches?: number;
+  page?: { path: string; total: number; offset: number; returned: number; hasMore: boolean };
+  /** Compact JSON length of the whole body */
+  originalLength: number;
+  /** Compact JSON length after projection */
+  projectedLength: number;
+  droppedLength: number;
+  droppedPercent: number;
+}
+
+type Token =
+  | { type: 'key'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'slice'; start?: number; end?: number; step: number }
+  | { type: 'union'; items: Array<string | number> }
+  | { type: 'filter'; test: (node: any) => boolean }
+  | { type: 'descend' };
+
+const IDENTIFIER = /^[A-Za-z_$][\w$-]*/;
+
+const isObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Finds the `]` closing the bracket opened at `start`, skipping quoted strings, regexes and parentheses
+const closingBracket = (expr: string, start: number): number => {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < expr.length; i++) {
+    const ch = expr[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '\'' || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === '[' || ch === '(') {
+      depth++;
+    } else if (ch === ']' || ch === ')') {
+      depth--;
+      if (depth === 0 && ch === ']') return i;
+    }
+  }
+  throw new Error(`Unclosed "[" in path "${expr}"`);
+};
+
+const unquote = (value: string): string | null => {
+  const match = value.trim().match(/^(['"])(.*)\1$/s);
+  return match ? match[2].replace(/\\(.)/g, '$1') : null;
+};
+
+const parseLiteral = (raw: string): any => {
+  const text = raw.trim();
+  const quoted = unquote(text);
+  if (quoted !== null) return quoted;
+  if (text.startsWith('`') && text.endsWith('`')) {
+    // JMESPath JSON literal, e.g. `true` or `"open"`
+    const inner = text.slice(1, -1);
+    try {
+      return JSON.parse(inner);
+    } catch (e) {
+      return inner;
+    }
+  }
+  const regex = text.match(/^\/(.*)\/([a-z]*)$/s);
+  if (regex) return new RegExp(regex[1], regex[2]);
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === 'null') return null;
+  if (text !== '' && !Number.isNaN(Number(text))) return Number(text);
+  throw new Error(`Invalid literal "${text}" in filter`);
+};
+
+const compileFilter = (body: string, expr: string): ((node: any) => boolean) => {
+  let inner = body.trim();
+  if (inner.startsWith('(') && inner.endsWith(')')) inner = inner.slice(1, -1).trim();
+  const match = inner.match(/^(.*?)\s*(==|!=|<=|>=|=~|<|>)\s*(.+)$/s);
+  const leftPath = (match ? match[1] : inner).trim().replace(/^@\.?/, '');
+  const left = leftPath ? parsePath(leftPath) : [];
+  if (left.some(t => t.type !== 'key' && t.type !== 'index')) {
+    throw new Error(`Filter in "${expr}" may only compare plain field paths`);
+  }
+  const read = (node: any) => (left.length ? evaluate(node, left).nodes[0] : node);
+  if (!match) return node => {
+    const value = read(node);
+    return value !== undefined && value !== null && value !== false;
+  };
+  const op = match[2];
+  const right = parseLiteral(match[3]);
+  return node => {
+    const value = read(node);
+    switch (op) {
+      case '==': return value === right;
+      case '!=': return value !== right;
+      case '<': return value < right;
+      case '<=': return value <= right;
+      case '>': return value > right;
+      case '>=': return value >= right;
+      case '=~': return typeof value === 'string' && right instanceof RegExp && right.test(value);
+      default: return false;
+    }
+  };
+};
+
+const parseBracket = (inner: string, expr: string): Token => {
+  const content = inner.trim();
+  if (content === '*') return { type: 'wildcard' };
+  if (content.startsWith('?')) return { type: 'filter', test: compileFilter(content.slice(1), expr) };
+  if (/^-?\d+$/.test(content)) return { type: 'index', index: Number(content) };
+  const slice = content.match(/^(-?\d*):(-?\d*)(?::(-?\d+))?$/);
+  if (slice) {
+    const num = (s: string | undefined) => (s === undefined || s === '' ? undefined : Number(s));
+    const step = num(slice[3]) ?? 1;
+    if (step === 0) throw new Error(`Slice step cannot be 0 in "${expr}"`);
+    return { type: 'slice', start: num(slice[1]), end: num(slice[2]), step };
+  }
+  const parts = content.split(/,(?=(?:[^'"]|'[^']*'|"[^"]*")*$)/).map(p => p.trim());
+  const items = parts.map(part => {
+    const quoted = unquote(part);
+    if (quoted !== null) return quoted;
+    if (/^-?\d+$/.test(part)) return Number(part);
+    throw new Error(`Invalid bracket expression "[${inner}]" in "${expr}"`);
+  });
+  return items.length === 1 && typeof items[0] === 'string' ? { type: 'key', name: items[0] } : { type: 'union', items };
+};
+
+/** Parses a path expression into tokens, throwing a descriptive error on bad syntax. */
+export const parsePath = (expr: string): Token[] => {
+  const text = expr.trim();
+  const tokens: Token[] = [];
+  let i = 0;
+  if (text.startsWith('$') || text.startsWith('@')) i = 1;
+  while (i < text.length) {
+    let identifierAllowed = i === 0;
+    if (text.startsWith('..', i)) {
+      tokens.push({ type: 'descend' });
+      i += 2;
+      identifierAllowed = true;
+    } else if (text[i] === '.') {
+      i++;
+      identifierAllowed = true;
+    }
+    if (text[i] === '[') {
+      const end = closingBracket(text, i);
+      tokens.push(parseBracket(text.slice(i + 1, end), expr));
+      i = end + 1;
+    } else if (identifierAllowed && text[i] === '*') {
+      tokens.push({ type: 'wildcard' });
+      i++;
+    } else if (identifierAllowed && IDENTIFIER.test(text.slice(i))) {
+      const name = text.slice(i).match(IDENTIFIER)![0];
+      tokens.push({ type: 'key', name });
+      i += name.length;
+    } else {
+      throw new Error(`Unexpected "${text.slice(i, i + 10)}" at position ${i} in path "${expr}"`);
+    }
+  }
+  return tokens;
+};
+
+const children = (node: any): any[] => (Array.isArray(node) ? node : isObject(node) ? Object.values(node) : []);
+
+const descendants = (node: any): any[] => [node, ...children(node).flatMap(descendants)];
+
+const sliceArray = (array: any[], start: number | undefined, end: number | undefined, step: number) => {
+  const len = array.length;
+  const norm = (v: number) => (v < 0 ? Math.max(0, len + v) : Math.min(len, v));
+  const result: any[] = [];
+  if (step > 0) {
+    for (let i = norm(start ?? 0); i < norm(end ?? len); i += step) result.push(array[i]);
+  } else {
+    const from = start === undefined ? len - 1 : Math.min(len - 1, start < 0 ? len + start : start);
+    const to = end === undefined ? -1 : end < 0 ? len + end : end;
+    for (let i = from; i > to; i += step) result.push(array[i]);
+  }
+  return result;
+};
+
+const applyToken = (node: any, token: Token): any[] => {
+  switch (token.type) {
+    case 'key':
+      return isObject(node) && Object.prototype.hasOwnProperty.call(node, token.name) ? [node[token.name]] : [];
+    case 'index': {
+      if (!Array.isArray(node)) return [];
+      const value = node.at(token.index);
+      return value === undefined && (token.index >= node.length || -token.index > node.length) ? [] : [value];
+    }
+    case 'wildcard':
+      return children(node);
+    case 'slice':
+      return Array.isArray(node) ? sliceArray(node, token.start, token.end, token.step) : [];
+    case 'union':
+      return token.items.flatMap(item => applyToken(node, typeof item === 'number' ? { type: 'index', index: item } : { type: 'key', name: item }));
+    case 'filter':
+      return children(node).filter(child => {
+        try {
+          return token.test(child);
+        } catch (e) {
+          return false;
+        }
+      });
+    case 'descend':
+      return descendants(node);
+  }
+};
+
+/** Evaluates tokens against a value. `multi` is true when the path can match several nodes. */
+export const evaluate = (root: any, tokens: Token[]) => {
+  let nodes = [root];
+  for (const token of tokens) nodes = nodes.flatMap(node => applyToken(node, token));
+  const multi = tokens.some(t => t.type !== 'key' && t.type !== 'index');
+  return { nodes, multi };
+};
+
+const splitFieldPath = (field: string) =>
+  field.replace(/\[\*?\]/g, '').split('.').map(s => s.trim()).filter(Boolean);
+
+// Keeps only the given field paths; arrays are mapped so "items.title" keeps the title of every item
+const pickFields = (value: any, paths: string[][]): any => {
+  if (Array.isArray(value)) return value.map(item => pickFields(item, paths));
+  if (!isObject(value)) return value;
+  const result: Record<string, any> = {};
+  for (const key of new Set(paths.map(p => p[0]))) {
+    if (!Object.prototype.hasOwnProperty.call(value, key)) continue;
+    const matching = paths.filter(p => p[0] === key);
+    result[key] = matching.some(p => p.length === 1) ? value[key] : pickFields(value[key], matching.map(p => p.slice(1)));
+  }
+  return result;
+};
+
+const omitFields = (value: any, paths: string[][]): any => {
+  if (Array.isArray(value)) return value.map(item => omitFields(item, paths));
+  if (!isObject(value)) return value;
+  const result: Record<string, any> = { ...value };
+  for (const key of new Set(paths.map(p => p[0]))) {
+    if (!Object.prototype.hasOwnProperty.call(result, key)) continue;
+    const matching = paths.filter(p => p[0] === key);
+    if (matching.some(p => p.length === 1)) delete result[key];
+    else result[key] = omitFields(result[key], matching.map(p => p.slice(1)));
+  }
+  return result;
+};
+
+const isStringList = (value: any) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+export const isValidJsonProjection = (projection: any): projection is JsonProjection => {
+  if (!isObject(projection)) return false;
+  if (projection.select !== undefined && typeof projection.select !== 'string') return false;
+  if (projection.include !== undefined && !isStringList(projection.include)) return false;
+  if (projection.exclude !== undefined && !isStringList(projection.exclude)) return false;
+  if (projection.page !== undefined) {
+    const page = projection.page;
+    if (!isObject(page)) return false;
+    if (page.path !== undefined && typeof page.path !== 'string') return false;
+    if (page.offset !== undefined && (!Number.isInteger(page.offset) || page.offset < 0)) return false;
+    if (page.count !== undefined && (!Number.isInteger(page.count) || page.count < 0)) return false;
+  }
+  return true;
+};
+
+// Replaces the array at a plain path (keys/indices only) with one page of it
+const pageArray = (root: any, page: NonNullable<JsonProjection['page']>) => {
+  const pathExpr = page.path ?? '$';
+  const tokens = parsePath(pathExpr);
+  if (tokens.some(t => t.type !== 'key' && t.type !== 'index')) {
+    throw new Error(`page.path "${pathExpr}" must point at a single array (no wildcards or filters)`);
+  }
+  const target = evaluate(root, tokens).nodes[0];
+  if (!Array.isArray(target)) throw new Error(`page.path "${pathExpr}" does not point at an array`);
+
+  const offset = page.offset ?? 0;
+  const items = target.slice(offset, page.count === undefined ? undefined : offset + page.count);
+  const report = { path: pathExpr, total: target.length, offset, returned: items.length, hasMore: offset + items.length < target.length };
+  if (tokens.length === 0) return { value: items, report };
+
+  const parent = evaluate(root, tokens.slice(0, -1)).nodes[0];
+  const last = tokens[tokens.length - 1] as Extract<Token, { type: 'key' | 'index' }>;
+  if (last.type === 'key') parent[last.name] = items;
+  else parent[last.index < 0 ? parent.length + last.index : last.index] = items;
+  return { value: root, report };
+};
+
+/**
+ * Applies select, then page, then include/exclude to a parsed JSON value.
+ * The value may be modified in place; pass a copy if the original is needed.
+ */
+export const projectJson = (value: any, projection: JsonProjection) => {
+  const originalLength = JSON.stringify(value)?.length ?? 0;
+  let result = value;
+  const report: Partial<ProjectionReport> = {};
+
+  if (projection.select) {
+    const { nodes, multi } = evaluate(result, parsePath(projection.select));
+    result = multi ? nodes : nodes[0] ?? null;
+    report.select = projection.select;
+    report.matches = nodes.length;
+  }
+  if (projection.page) {
+    const paged = pageArray(result, projection.page);
+    result = paged.value;
+    report.page = paged.report;
+  }
+  if (projection.include?.length) result = pickFields(result, projection.include.map(splitFieldPath));
+  if (projection.exclude?.length) result = omitFields(result, projection.exclude.map(splitFieldPath));
+
+  const projectedLength = JSON.stringify(result)?.length ?? 0;
+  const droppedLength = Math.max(0, originalLength - projectedLength);
+  return {
+    value: result,
+    report: {
+      ...report,
+      originalLength,
+      projectedLength,
+      droppedLength,
+      droppedPercent: originalLength ? Math.round((droppedLength / originalLength) * 1000) / 10 : 0
+    } as ProjectionReport
+  };
+};
@@ -0,0 +1,302 @@
+import { JSDOM } from 'jsdom';
+
+// Minimal DOM -> Markdown converter used for article and snapshot output.
+// Works on any DOM implementation (JSDOM on the server side).
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+const SKIP_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'head', 'meta', 'link']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'dialog', 'div', 'dl', 'dt', 'fieldset',
+  'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main',
+  'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul'
+]);
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ');
+
+const escapeTableCell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\n+/g, ' ').trim();
+
+const tagOf = (node: Node): string => (node.nodeType === ELEMENT_NODE ? (node as Element).tagName.toLowerCase() : '');
+
+/** Converts inline content (text, links, emphasis, code) to a single Markdown line. */
+const inlineToMarkdown = (node: Node): string => {
+  if (node.nodeType === TEXT_NODE) return collapseWhitespace(node.textContent || '');
+  if (node.nodeType !== ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const tag = tagOf(el);
+  if (SKIP_TAGS.has(tag)) return '';
+
+  const inner = () => Array.from(el.childNodes).map(inlineToMarkdown).join('');
+
+  switch (tag) {
+    case 'br':
+      return '\n';
+    case 'strong': case 'b': {
+      const text = inner().trim();
+      return text ? `**${text}**` : '';
+    }
+    case 'em': case 'i': {
+      const text = inner().trim();
+      return text ? `_${text}_` : '';
+    }
+    case 'del': case 's': case 'strike': {
+      const text = inner().trim();
+      return text ? `~~${text}~~` : '';
+    }
+    case 'code': {
+      const text = el.textContent || '';
+      if (!text) return '';
+      const fence = text.includes('`') ? '``' : '`';
+      return `${fence}${text}${fence}`;
+    }
+    case 'a': {
+      const text = inner().trim();
+      const href = el.getAttribute('href') || '';
+      if (!href || href.startsWith('javascript:')) return text;
+      const absolute = (el as HTMLAnchorElement).href || href;
+      return `[${text || absolute}](${absolute})`;
+    }
+    case 'img': {
+      const src = (el as HTMLImageElement).src || el.getAttribute('src') || '';
+      if (!src) return '';
+      const alt = collapseWhitespace(el.getAttribute('alt') || '').trim();
+      return `![${alt}](${src})`;
+    }
+    default:
+      return inner();
+  }
+};
+
+const hasBlockChildren = (el: Element): boolean =>
+  Array.from(el.children).some(child => BLOCK_TAGS.has(tagOf(child)));
+
+const listToBlocks = (list: Element, depth: number): string => {
+  const ordered = tagOf(list) === 'ol';
+  const start = parseInt(list.getAttribute('start') || '1', 10) || 1;
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+  let index = start;
+
+  for (const item of Array.from(list.children)) {
+    if (tagOf(item) !== 'li') continue;
+    const marker = ordered ? `${index++}.` : '-';
+    const textParts: string[] = [];
+    const nested: string[] = [];
+
+    for (const child of Array.from(item.childNodes)) {
+      const childTag = tagOf(child);
+      if (childTag === 'ul' || childTag === 'ol') {
+        nested.push(listToBlocks(child as Element, depth + 1));
+      } else if (child.nodeType === ELEMENT_NODE && BLOCK_TAGS.has(childTag)) {
+        textParts.push(blocksOf(child as Element).join(' '));
+      } else {
+        textParts.push(inlineToMarkdown(child));
+      }
+    }
+
+    const text = collapseWhitespace(textParts.join('')).trim();
+    lines.push(`${indent}${marker} ${text}`);
+    lines.push(...nested);
+  }
+  return lines.join('\n');
+};
+
+const tableToBlock = (table: Element): string => {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .filter(tr => tr.closest('table') === table)
+    .map(tr => Array.from(tr.children)
+      .filter(cell => ['td', 'th'].includes(tagOf(cell)))
+      .map(cell => escapeTableCell(inlineToMarkdown(cell))));
+
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map(r => r.length));
+  if (width === 0) return '';
+  const pad = (r: string[]) => [...r, ...new Array(width - r.length).fill('')];
+
+  const [header, ...body] = rows.map(pad);
+  const lines = [
+    `| ${header.join(' | ')} |`,
+    `| ${new Array(width).fill('---').join(' | ')} |`,
+    ...body.map(r => `| ${r.join(' | ')} |`)
+  ];
+  return lines.join('\n');
+};
+
+const preToBlock = (pre: Element): string => {
+  const code = pre.querySelector('code');
+  const className = (code?.getAttribute('class') || pre.getAttribute('class') || '');
+  const lang = (className.match(/(?:language|lang)-([\w+-]+)/) || [])[1] || '';
+  const text = (pre.textContent || '').replace(/\n+$/, '');
+  const fence = text.includes('```') ? '~~~' : '```';
+  return `${fence}${lang}\n${text}\n${fence}`;
+};
+
+/**
+ * Walks an element and returns its Markdown as a list of top-level blocks
+ * (paragraphs, headings, lists, tables, code blocks). Blocks never split a
+ * structure in half, so callers can safely paginate on block boundaries.
+ */
+const blocksOf = (root: Element): string[] => {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flushInline = () => {
+    const text = inline.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  for (const child of Array.from(root.childNodes)) {
+    const tag = tagOf(child);
+    if (child.nodeType === ELEMENT_NODE && SKIP_TAGS.has(tag)) continue;
+
+    if (child.nodeType !== ELEMENT_NODE || !BLOCK_TAGS.has(tag)) {
+      inline += inlineToMarkdown(child);
+      continue;
+    }
+
+    flushInline();
+    const el = child as Element;
+
+    if (/^h[1-6]$/.test(tag)) {
+      const text = collapseWhitespace(inlineToMarkdown(el)).trim();
+      if (text) blocks.push(`${'#'.repeat(parseInt(tag[1], 10))} ${text}`);
+    } else if (tag === 'ul' || tag === 'ol') {
+      const list = listToBlocks(el, 0);
+      if (list.trim()) blocks.push(list);
+    } else if (tag === 'table') {
+      const table = tableToBlock(el);
+      if (table) blocks.push(table);
+    } else if (tag === 'pre') {
+      blocks.push(preToBlock(el));
+    } else if (tag === 'hr') {
+      blocks.push('---');
+    } else if (tag === 'blockquote') {
+      const quoted = blocksOf(el).join('\n\n');
+      if (quoted) blocks.push(quoted.split('\n').map(line => `> ${line}`.trimEnd()).join('\n'));
+    } else if (hasBlockChildren(el)) {
+      blocks.push(...blocksOf(el));
+    } else {
+      const text = inlineToMarkdown(el).replace(/[ \t]+\n/g, '\n').trim();
+      if (text) blocks.push(text);
+    }
+  }
+
+  flushInline();
+  return blocks;
+};
+
+/** Converts a DOM element (and its descendants) to Markdown. */
+export const htmlToMarkdown = (root: Element): string => blocksOf(root).join('\n\n');
+
+// Splits an oversized block into its frame and the lines between it: code fences
+// are closed and reopened, table header/separator rows repeated in every piece
+const frameOf = (lines: string[]) => {
+  const fence = lines[0].match(/^(`{3,}|~{3,})/);
+  if (fence && lines.length > 1 && lines[lines.length - 1] === fence[1]) {
+    return { head: [lines[0]], body: lines.slice(1, -1), tail: [fence[1]] };
+  }
+  if (lines.length > 2 && lines[0].startsWith('|') && /^\|(?: *:?-+:? *\|)+$/.test(lines[1])) {
+    return { head: lines.slice(0, 2), body: lines.slice(2), tail: [] };
+  }
+  return { head: [], body: lines, tail: [] };
+};
+
+/** Splits a block larger than `limit` on line boundaries, keeping code fences and table headers in every piece. */
+const splitBlock = (block: string, limit: number): string[] => {
+  const lines = block.split('\n');
+  const framed = frameOf(lines);
+  // A frame that leaves no room for content (e.g. a huge table header) is split like plain text
+  const { head, body, tail } = [...framed.head, ...framed.tail].join('\n').length > limit / 2 ? { head: [], body: lines, tail: [] } : framed;
+  const budget = limit - [...head, ...tail].reduce((sum, line) => sum + line.length + 1, 0);
+  const pieces: string[] = [];
+  const flush = (lines: string[]) => {
+    if (lines.length) pieces.push([...head, ...lines, ...tail].join('\n'));
+  };
+
+  let current: string[] = [];
+  let length = 0;
+  for (const line of body) {
+    if (current.length && length + line.length + 1 > budget) {
+      flush(current);
+      current = [];
+      length = 0;
+    }
+    // Hard-wrap single lines that are still too long (e.g. minified text)
+    let rest = line;
+    while (rest.length > budget) {
+      flush(current);
+      current = [];
+      length = 0;
+      flush([rest.slice(0, budget)]);
+      rest = rest.slice(budget);
+    }
+    length += (current.length ? 1 : 0) + rest.length;
+    current.push(rest);
+  }
+  flush(current);
+  return pieces;
+};
+
+/**
+ * Groups Markdown blocks into chunks of at most `maxChars` characters, splitting
+ * only between blocks. A single block larger than `maxChars` is split on line
+ * boundaries as a last resort, with fences and table headers repeated per piece.
+ */
+const chunkMarkdownBlocks = (blocks: string[], maxChars: number): string[] => {
+  const limit = Math.max(500, Math.floor(maxChars));
+  const pieces = blocks.flatMap(block => (block.length <= limit ? [block] : splitBlock(block, limit)));
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+  for (const piece of pieces) {
+    if (current.length > 0 && length + piece.length + 2 > limit) {
+      // Keep a trailing heading together with the content that follows it
+      const carried = current.length > 1 && /^#{1,6} /.test(current[current.length - 1]) ? current.pop()! : null;
+      chunks.push(current.join('\n\n'));
+      current = carried ? [carried] : [];
+      length = carried ? carried.length : 0;
+    }
+    length += (current.length > 0 ? 2 : 0) + piece.length;
+    current.push(piece);
+  }
+  if (current.length > 0) chunks.push(current.join('\n\n'));
+  return chunks;
+};
+
+export interface MarkdownChunk {
+  title: string;
+  chunk: number;
+  totalChunks: number;
+  nextCursor: number | null;
+  totalLength: number;
+  content: string;
+}
+
+// Converts a full HTML document to Markdown and returns the chunk at `cursor` (0-based).
+export const htmlToMarkdownChunk = (html: string, url: string, cursor: number = 0, chunkSize: number = 20000): MarkdownChunk => {
+  const dom = new JSDOM(html, { url });
+  try {
+    const { document } = dom.window;
+    const blocks = document.body ? blocksOf(document.body) : [];
+    const chunks = chunkMarkdownBlocks(blocks, chunkSize);
+    const totalChunks = chunks.length;
+    const index = Math.max(0, Math.floor(cursor));
+    if (totalChunks > 0 && index >= totalChunks) {
+      throw new Error(`Cursor ${index} out of range (totalChunks: ${totalChunks})`);
+    }
+    return {
+      title: document.title || '',
+      chunk: index,
+      totalChunks,
+      nextCursor: index + 1 < totalChunks ? index + 1 : null,
+      totalLength: blocks.join('\n\n').length,
+      content: chunks[index] ?? ''
+    };
+  } finally {
+    dom.window.close();
+  }
+};
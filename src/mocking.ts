@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ErrorCode } from 'puppeteer';
+import { compileUrlPattern } from './blocking.js';
+
+// Request mocking rules for browser pages: fulfill with a canned response,
+// rewrite request headers, delay, or abort matching requests.
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  /** Inline body; objects are serialized as JSON */
+  body?: string | object;
+  /** Local file used as the body (relative to the project root or absolute) */
+  bodyFile?: string;
+}
+
+export interface MockRule {
+  /** Name reported with the hit count (defaults to "METHOD url") */
+  id?: string;
+  /** URL glob (`*` wildcard) or /regex/flags */
+  url: string;
+  /** HTTP method to match (any when omitted) */
+  method?: string;
+  /** Fulfill the request with this response instead of hitting the network */
+  response?: MockResponse;
+  /** Set (string) or remove (null) request headers before the request is sent */
+  requestHeaders?: Record<string, string | null>;
+  /** Abort the request with this network error, e.g. "failed", "timedout", "connectionrefused" */
+  abort?: ErrorCode;
+  /** Hold the request for this many milliseconds before resolving it */
+  delayMs?: number;
+}
+
+export interface CompiledMockRule {
+  id: string;
+  rule: MockRule;
+  regex: RegExp;
+  body?: Buffer;
+  hits: number;
+}
+
+export const ABORT_REASONS: ErrorCode[] = [
+  'aborted', 'accessdenied', 'addressunreachable', 'blockedbyclient', 'blockedbyresponse', 'connectionaborted',
+  'connectionclosed', 'connectionfailed', 'connectionrefused', 'connectionreset', 'internetdisconnected',
+  'namenotresolved', 'timedout', 'failed'
+];
+
+const isHeaderMap = (value: any, allowNull: boolean) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  Object.values(value).every(v => typeof v === 'string' || (allowNull && v === null));
+
+// Returns an error message for an invalid rule, or null when it is valid
+const ruleError = (rule: any, index: number): string | null => {
+  const where = `mocks[${index}]`;
+  if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) return `${where} must be an object`;
+  if (typeof rule.url !== 'string' || !rule.url) return `${where} requires "url"`;
+  if (rule.method !== undefined && typeof rule.method !== 'string') return `${where}.method must be a string`;
+  if (rule.delayMs !== undefined && (typeof rule.delayMs !== 'number' || rule.delayMs < 0)) return `${where}.delayMs must be a non-negative number`;
+  if (rule.abort !== undefined && !ABORT_REASONS.includes(rule.abort)) return `${where}.abort must be one of: ${ABORT_REASONS.join(', ')}`;
+  if (rule.requestHeaders !== undefined && !isHeaderMap(rule.requestHeaders, true)) return `${where}.requestHeaders must map header names to strings or null`;
+  if (rule.response !== undefined) {
+    const res = rule.response;
+    if (typeof res !== 'object' || res === null) return `${where}.response must be an object`;
+    if (res.status !== undefined && (!Number.isInteger(res.status) || res.status < 100 || res.status > 599)) return `${where}.response.status must be an HTTP status code`;
+    if (res.headers !== undefined && !isHeaderMap(res.headers, false)) return `${where}.response.headers must map header names to strings`;
+    if (res.body !== undefined && res.bodyFile !== undefined) return `${where}.response: use either body or bodyFile, not both`;
+  }
+  const outcomes = ['response', 'abort', 'requestHeaders'].filter(k => rule[k] !== undefined);
+  if (outcomes.length > 1) return `${where}: use only one of response, abort or requestHeaders`;
+  if (outcomes.length === 0 && rule.delayMs === undefined) return `${where} needs response, abort, requestHeaders or delayMs`;
+  return null;
+};
+
+/**
+ * Validates and compiles mock rules. Body files are read once here, so a
+ * missing file is reported when the rules are configured, not on first hit.
+ */
+export const compileMockRules = (rules: any, baseDir: string): CompiledMockRule[] => {
+  if (!Array.isArray(rules)) throw new Error('mocks must be an array of rules');
+  return rules.map((rule: any, index: number) => {
+    const error = ruleError(rule, index);
+    if (error) throw new Error(error);
+
+    let regex: RegExp;
+    try {
+      regex = compileUrlPattern(rule.url);
+    } catch (e: any) {
+      throw new Error(`mocks[${index}].url: ${e.message}`);
+    }
+
+    let body: Buffer | undefined;
+    const res: MockResponse | undefined = rule.response;
+    if (res?.bodyFile) {
+      const filePath = path.isAbsolute(res.bodyFile) ? res.bodyFile : path.resolve(baseDir, res.bodyFile);
+      if (!fs.existsSync(filePath)) throw new Error(`mocks[${index}].response.bodyFile not found: ${filePath}`);
+      body = fs.readFileSync(filePath);
+    } else if (res?.body !== undefined) {
+      body = Buffer.from(typeof res.body === 'string' ? res.body : JSON.stringify(res.body));
+    }
+
+    const method = rule.method ? rule.method.toUpperCase() : '*';
+    return { id: rule.id || `${method} ${rule.url}`, rule, regex, body, hits: 0 };
+  });
+};
+
+export const findMockRule = (rules: CompiledMockRule[], url: string, method: string): CompiledMockRule | undefined =>
+  rules.find(r => r.regex.test(url) && (!r.rule.method || r.rule.method.toUpperCase() === method.toUpperCase()));
+
+// Content type for a fulfilled response: explicit, then headers, then guessed from the body
+export const mockContentType = (compiled: CompiledMockRule): string | undefined => {
+  const res = compiled.rule.response;
+  if (!res) return undefined;
+  if (res.contentType) return res.contentType;
+  const header = Object.entries(res.headers || {}).find(([name]) => name.toLowerCase() === 'content-type');
+  if (header) return header[1];
+  if (res.body !== undefined && typeof res.body !== 'string') return 'application/json';
+  if (res.bodyFile?.endsWith('.json')) return 'application/json';
+  if (res.bodyFile?.match(/\.html?$/)) return 'text/html';
+  return 'text/plain';
+};
+
+/** Applies set/remove header overrides to a request's headers. */
+export const applyHeaderOverrides = (headers: Record<string, string>, overrides: Record<string, string | null>) => {
+  const result: Record<string, string> = {};
+  const lowered = Object.fromEntries(Object.entries(overrides).map(([k, v]) => [k.toLowerCase(), v]));
+  for (const [name, value] of Object.entries(headers)) {
+    if (!(name.toLowerCase() in lowered)) result[name] = value;
+  }
+  for (const [name, value] of Object.entries(lowered)) {
+    if (value !== null) result[name] = value;
+  }
+  return result;
+};
+
+export const mockHitCounts = (rules: CompiledMockRule[]) => rules.map(r => ({ id: r.id, hits: r.hits }));
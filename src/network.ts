@@ -0,0 +1,183 @@
+import { compileUrlPattern } from './blocking.js';
+
+// Network capture for browser pages: per-request entries with response metadata,
+// timings, sizes, failures and (optionally) text bodies, plus HAR 1.2 export.
+
+export interface NetworkCaptureOptions {
+  /** Record JSON/text response bodies */
+  captureBodies?: boolean;
+  /** Maximum characters kept per body (default 100000) */
+  maxBodySize?: number;
+  /** Only capture bodies for URLs matching one of these globs or /regex/ strings */
+  bodyUrlPatterns?: string[];
+}
+
+/** HAR-style phase durations in milliseconds (-1 when a phase did not apply) */
+export interface NetworkTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface NetworkEntry {
+  url: string;
+  method: string;
+  resourceType: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  postData?: string;
+  startedAt: string;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  mimeType?: string;
+  fromCache?: boolean;
+  /** Server IP address, without the port */
+  remoteIPAddress?: string;
+  remotePort?: number;
+  /** Time from request start until the body finished loading (or failed) */
+  durationMs?: number;
+  timings?: NetworkTimings;
+  /** Bytes received over the wire, including headers */
+  transferSize?: number;
+  failure?: string;
+  blocked?: string;
+  /** Id of the mock rule that handled the request */
+  mocked?: string;
+  body?: string;
+  bodySize?: number;
+  bodyTruncated?: boolean;
+}
+
+// Timing fields of the CDP Network.ResourceTiming object that we use
+export interface ResourceTiming {
+  dnsStart: number;
+  dnsEnd: number;
+  connectStart: number;
+  connectEnd: number;
+  sslStart: number;
+  sslEnd: number;
+  sendStart: number;
+  sendEnd: number;
+  receiveHeadersEnd: number;
+}
+
+const DEFAULT_MAX_BODY_SIZE = 100000;
+
+const TEXT_MIME = /^(text\/|application\/([\w.+-]+\+)?(json|xml|javascript|ecmascript|x-www-form-urlencoded|graphql)|application\/x-ndjson)/i;
+
+export const isValidNetworkCaptureOptions = (options: any): options is NetworkCaptureOptions => {
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) return false;
+  if (options.captureBodies !== undefined && typeof options.captureBodies !== 'boolean') return false;
+  if (options.maxBodySize !== undefined && (typeof options.maxBodySize !== 'number' || options.maxBodySize <= 0)) return false;
+  if (options.bodyUrlPatterns !== undefined &&
+    (!Array.isArray(options.bodyUrlPatterns) || !options.bodyUrlPatterns.every((p: any) => typeof p === 'string'))) return false;
+  return true;
+};
+
+/** Returns a predicate deciding whether a response body should be kept. */
+export const createBodyFilter = (options: NetworkCaptureOptions) => {
+  const patterns = (options.bodyUrlPatterns || []).map(compileUrlPattern);
+  return (url: string, mimeType: string): boolean => {
+    if (!options.captureBodies || !TEXT_MIME.test(mimeType)) return false;
+    return patterns.length === 0 || patterns.some(p => p.test(url));
+  };
+};
+
+export const truncateBody = (body: string, options: NetworkCaptureOptions) => {
+  const max = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+  return body.length > max
+    ? { body: body.substring(0, max), bodySize: body.length, bodyTruncated: true }
+    : { body, bodySize: body.length, bodyTruncated: false };
+};
+
+/** 3xx statuses that move the request to another URL (304 Not Modified still loads from cache) */
+export const isRedirectStatus = (status?: number) => status !== undefined && [301, 302, 303, 307, 308].includes(status);
+
+const round = (ms: number) => Math.round(ms * 100) / 100;
+
+/** Converts CDP resource timing (ms offsets from requestTime) into HAR phase durations. */
+export const toNetworkTimings = (t: ResourceTiming, durationMs: number): NetworkTimings => {
+  const span = (start: number, end: number) => (start >= 0 && end >= start ? round(end - start) : -1);
+  const firstPhase = [t.dnsStart, t.connectStart, t.sendStart].find(v => v >= 0) ?? 0;
+  return {
+    blocked: round(firstPhase),
+    dns: span(t.dnsStart, t.dnsEnd),
+    connect: span(t.connectStart, t.connectEnd),
+    ssl: span(t.sslStart, t.sslEnd),
+    send: Math.max(0, span(t.sendStart, t.sendEnd)),
+    wait: Math.max(0, span(t.sendEnd, t.receiveHeadersEnd)),
+    receive: Math.max(0, round(durationMs - t.receiveHeadersEnd))
+  };
+};
+
+const toNameValue = (headers: Record<string, string> = {}) =>
+  Object.entries(headers).flatMap(([name, value]) => String(value).split('\n').map(v => ({ name, value: v })));
+
+const queryStringOf = (url: string) => {
+  try {
+    return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+  } catch (e) {
+    return [];
+  }
+};
+
+/** Builds a HAR 1.2 log for one page from the captured entries. */
+export const buildHar = (entries: NetworkEntry[], page: { url: string; title: string }, version: string) => {
+  const startedDateTime = entries[0]?.startedAt ?? new Date().toISOString();
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'web-curl', version },
+      pages: [{ startedDateTime, id: 'page_1', title: page.title || page.url, pageTimings: {} }],
+      entries: entries.map(entry => {
+        const timings = entry.timings ?? { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 0, receive: 0 };
+        const contentType = entry.headers['content-type'] || entry.headers['Content-Type'];
+        return {
+          pageref: 'page_1',
+          startedDateTime: entry.startedAt,
+          time: entry.durationMs ?? 0,
+          request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: '',
+            cookies: [],
+            headers: toNameValue(entry.headers),
+            queryString: queryStringOf(entry.url),
+            headersSize: -1,
+            bodySize: entry.postData !== undefined ? Buffer.byteLength(entry.postData) : 0,
+            ...(entry.postData !== undefined ? { postData: { mimeType: contentType || '', text: entry.postData } } : {})
+          },
+          response: {
+            status: entry.status ?? 0,
+            statusText: entry.statusText ?? '',
+            httpVersion: '',
+            cookies: [],
+            headers: toNameValue(entry.responseHeaders),
+            content: {
+              size: entry.bodySize ?? -1,
+              mimeType: entry.mimeType ?? '',
+              ...(entry.body !== undefined ? { text: entry.body } : {}),
+              ...(entry.bodyTruncated ? { comment: 'truncated' } : {})
+            },
+            redirectURL: entry.responseHeaders?.location ?? '',
+            headersSize: -1,
+            bodySize: entry.transferSize ?? -1
+          },
+          cache: {},
+          timings,
+          ...(entry.remoteIPAddress ? { serverIPAddress: entry.remoteIPAddress } : {}),
+          ...(entry.remotePort ? { connection: String(entry.remotePort) } : {}),
+          _resourceType: entry.resourceType,
+          ...(entry.failure ? { _failure: entry.failure } : {}),
+          ...(entry.blocked ? { _blocked: entry.blocked } : {}),
+          ...(entry.mocked ? { _mocked: entry.mocked } : {})
+        };
+      })
+    }
+  };
+};
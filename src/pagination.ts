@@ -0,0 +1,181 @@
+import { evaluate, parsePath } from './json-projection.js';
+
+// Paginated API crawling for fetch_api: follows Link rel="next" headers, body
+// cursors, page numbers or offsets, merging the items of every page until a
+// limit, an empty page, an error, or the last page is reached.
+
+export type PaginationStrategy = 'link' | 'cursor' | 'page' | 'offset';
+
+export interface PaginationOptions {
+  strategy: PaginationStrategy;
+  /** Path to the items array in each page (JSONPath-style, see json-projection.ts); optional when the body is an array */
+  itemsPath?: string;
+  /** Maximum pages to fetch (default 10) */
+  maxPages?: number;
+  /** Stop once this many items were collected */
+  maxItems?: number;
+  /** cursor: path to the next cursor or next-page URL in the body, e.g. "meta.next_cursor" */
+  cursorPath?: string;
+  /** cursor: query parameter that receives the cursor (default "cursor") */
+  cursorParam?: string;
+  /** page: query parameter holding the page number (default "page") */
+  pageParam?: string;
+  /** page: first page number when the URL has none (default 1) */
+  startPage?: number;
+  /** offset: query parameter holding the offset (default "offset") */
+  offsetParam?: string;
+  /** page/offset: expected items per page; a shorter page is treated as the last one. Also the offset step (default: items on the previous page) */
+  pageSize?: number;
+}
+
+export type StopReason = 'last_page' | 'max_pages' | 'max_items' | 'empty_page' | 'error' | 'repeated_page';
+
+export interface PageReport {
+  url: string;
+  status?: number;
+  ok: boolean;
+  items: number;
+  responseTimeMs?: number;
+  attempts?: number;
+  error?: string;
+}
+
+/** The parts of a fetched page pagination needs */
+export interface FetchedPage {
+  status: number;
+  ok: boolean;
+  url: string;
+  headers: Record<string, string>;
+  body: any;
+  responseTimeMs: number;
+  attempts: number;
+}
+
+export interface PaginationResult {
+  items: any[];
+  pages: PageReport[];
+  stoppedBecause: StopReason;
+}
+
+const STRATEGIES: PaginationStrategy[] = ['link', 'cursor', 'page', 'offset'];
+
+const isPositiveInt = (v: any) => Number.isInteger(v) && v > 0;
+
+export const isValidPaginationOptions = (options: any): options is PaginationOptions => {
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) return false;
+  if (!STRATEGIES.includes(options.strategy)) return false;
+  for (const key of ['itemsPath', 'cursorPath', 'cursorParam', 'pageParam', 'offsetParam']) {
+    if (options[key] !== undefined && typeof options[key] !== 'string') return false;
+  }
+  for (const key of ['maxPages', 'maxItems', 'pageSize']) {
+    if (options[key] !== undefined && !isPositiveInt(options[key])) return false;
+  }
+  if (options.startPage !== undefined && !Number.isInteger(options.startPage)) return false;
+  if (options.strategy === 'cursor' && typeof options.cursorPath !== 'string') return false;
+  return true;
+};
+
+/** Returns the rel="next" target of a Link header, resolved against the page URL. */
+export const parseNextLink = (header: string | undefined, base: string): string | null => {
+  if (!header) return null;
+  for (const part of header.split(/,(?=\s*<)/)) {
+    const match = part.match(/<([^>]*)>(.*)/);
+    if (match && /;\s*rel\s*=\s*"?([^";]*\s)?next(\s[^";]*)?"?/i.test(match[2])) {
+      return new URL(match[1], base).toString();
+    }
+  }
+  return null;
+};
+
+const extractItems = (body: any, itemsPath?: string): any[] => {
+  if (!itemsPath) {
+    if (Array.isArray(body)) return body;
+    throw new Error('Page body is not an array; set paginate.itemsPath');
+  }
+  const { nodes, multi } = evaluate(body, parsePath(itemsPath));
+  if (multi) return nodes;
+  if (nodes.length === 0 || nodes[0] === null) return [];
+  if (!Array.isArray(nodes[0])) throw new Error(`itemsPath "${itemsPath}" does not point at an array`);
+  return nodes[0];
+};
+
+const withParam = (url: string, name: string, value: string | number) => {
+  const target = new URL(url);
+  target.searchParams.set(name, String(value));
+  return target.toString();
+};
+
+// Works out the URL of the page after `current`, or null when there is none
+const nextUrl = (options: PaginationOptions, firstUrl: string, current: string, page: FetchedPage, itemCount: number): string | null => {
+  switch (options.strategy) {
+    case 'link':
+      return parseNextLink(page.headers.link, page.url || current);
+    case 'cursor': {
+      const cursor = evaluate(page.body, parsePath(options.cursorPath!)).nodes[0];
+      if (cursor === undefined || cursor === null || cursor === '' || cursor === false) return null;
+      // Some APIs return the full next URL instead of an opaque cursor
+      if (typeof cursor === 'string' && /^(https?:\/\/|\/|\?)/.test(cursor)) return new URL(cursor, page.url || current).toString();
+      return withParam(firstUrl, options.cursorParam || 'cursor', String(cursor));
+    }
+    case 'page': {
+      if (options.pageSize && itemCount < options.pageSize) return null;
+      const param = options.pageParam || 'page';
+      const currentPage = Number(new URL(current).searchParams.get(param) ?? options.startPage ?? 1);
+      return withParam(current, param, currentPage + 1);
+    }
+    case 'offset': {
+      if (options.pageSize && itemCount < options.pageSize) return null;
+      const param = options.offsetParam || 'offset';
+      const currentOffset = Number(new URL(current).searchParams.get(param) ?? 0);
+      return withParam(current, param, currentOffset + (options.pageSize ?? itemCount));
+    }
+  }
+};
+
+/**
+ * Fetches pages starting at `url` with `fetchPage` and merges their items.
+ * Stops on the last page, an empty page, an error, a repeated URL, or the page/item limits.
+ */
+export const paginate = async (
+  url: string,
+  options: PaginationOptions,
+  fetchPage: (url: string) => Promise<FetchedPage>
+): Promise<PaginationResult> => {
+  const maxPages = options.maxPages ?? 10;
+  const items: any[] = [];
+  const pages: PageReport[] = [];
+  const seen = new Set<string>();
+
+  let current: string | null = url;
+  if (options.strategy === 'page' && options.startPage !== undefined && !new URL(url).searchParams.has(options.pageParam || 'page')) {
+    current = withParam(url, options.pageParam || 'page', options.startPage);
+  }
+
+  while (current) {
+    if (pages.length >= maxPages) return { items, pages, stoppedBecause: 'max_pages' };
+    if (seen.has(current)) return { items, pages, stoppedBecause: 'repeated_page' };
+    seen.add(current);
+
+    let page: FetchedPage | undefined;
+    let pageItems: any[];
+    try {
+      page = await fetchPage(current);
+      if (!page.ok) throw new Error(`HTTP ${page.status}`);
+      pageItems = extractItems(page.body, options.itemsPath);
+    } catch (e: any) {
+      pages.push({ url: current, ...(page ? { status: page.status, responseTimeMs: page.responseTimeMs, attempts: page.attempts } : {}), ok: false, items: 0, error: e.message });
+      return { items, pages, stoppedBecause: 'error' };
+    }
+
+    pages.push({ url: current, status: page.status, ok: true, items: pageItems.length, responseTimeMs: page.responseTimeMs, attempts: page.attempts });
+    if (pageItems.length === 0) return { items, pages, stoppedBecause: 'empty_page' };
+
+    items.push(...pageItems);
+    if (options.maxItems !== undefined && items.length >= options.maxItems) {
+      items.length = options.maxItems;
+      return { items, pages, stoppedBecause: 'max_items' };
+    }
+    current = nextUrl(options, url, current, page, pageItems.length);
+  }
+  return { items, pages, stoppedBecause: 'last_page' };
+};
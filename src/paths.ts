@@ -0,0 +1,5 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+// Project root is one level up from 'src' or 'build'
+export const PROJECT_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
@@ -0,0 +1,228 @@
+import { Frame } from 'puppeteer';
+
+// Deterministic element refs. A ref is a hash of the element's fingerprint
+// (role, accessible name, DOM path, nearby text), so re-rendered nodes get the
+// same ref on the next snapshot, and a ref whose data-mcp-ref attribute has
+// disappeared can be re-located by comparing fingerprints.
+
+export interface RefFingerprint {
+  role: string;
+  name: string;
+  path: string;
+  text: string;
+}
+
+export interface RefCandidate extends RefFingerprint {
+  score: number;
+}
+
+export interface RelocateResult {
+  found: boolean;
+  candidates: RefCandidate[];
+}
+
+/**
+ * Installs `window.__mcpRefs` in a frame. This function is serialized by
+ * frame.evaluate(), so it must stay fully self-contained.
+ */
+export const installRefHelpers = () => {
+  const w = window as any;
+  if (w.__mcpRefs) return;
+
+  const collapse = (text: string | null | undefined, max: number) =>
+    (text || '').replace(/\s+/g, ' ').trim().substring(0, max);
+
+  const roleOf = (el: Element): string => {
+    const explicit = el.getAttribute('role');
+    if (explicit) return explicit.split(' ')[0];
+    const tag = el.tagName.toLowerCase();
+    switch (tag) {
+      case 'button': return 'button';
+      case 'a': return el.hasAttribute('href') ? 'link' : 'generic';
+      case 'input': {
+        const type = ((el as HTMLInputElement).type || 'text').toLowerCase();
+        if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+        if (type === 'checkbox') return 'checkbox';
+        if (type === 'radio') return 'radio';
+        if (type === 'range') return 'slider';
+        if (type === 'number') return 'spinbutton';
+        if (type === 'search') return 'searchbox';
+        if (type === 'file') return 'button';
+        if (type === 'hidden') return 'none';
+        return 'textbox';
+      }
+      case 'textarea': return 'textbox';
+      case 'select': return (el as HTMLSelectElement).multiple || (el as HTMLSelectElement).size > 1 ? 'listbox' : 'combobox';
+      case 'option': return 'option';
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': return 'heading';
+      case 'img': return 'image';
+      case 'table': return 'table';
+      case 'form': return 'form';
+      case 'ul': case 'ol': return 'list';
+      case 'li': return 'listitem';
+      case 'nav': return 'navigation';
+      case 'dialog': return 'dialog';
+      case 'summary': return 'button';
+      default: return 'generic';
+    }
+  };
+
+  const nameOf = (el: Element): string => {
+    const aria = el.getAttribute('aria-label');
+    if (aria) return collapse(aria, 80);
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\s+/).map(id => el.ownerDocument.getElementById(id)?.textContent || '').join(' ');
+      if (text.trim()) return collapse(text, 80);
+    }
+    const labels = (el as HTMLInputElement).labels;
+    if (labels && labels.length > 0) return collapse(Array.from(labels).map(l => l.textContent).join(' '), 80);
+    for (const attr of ['alt', 'title', 'placeholder']) {
+      const value = el.getAttribute(attr);
+      if (value) return collapse(value, 80);
+    }
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'input' && ['button', 'submit', 'reset'].includes((el as HTMLInputElement).type)) {
+      return collapse((el as HTMLInputElement).value, 80);
+    }
+    // Form fields are named by their labels only, never by their contents
+    if (['input', 'select', 'textarea'].includes(tag)) return '';
+    const text = (el as HTMLElement).innerText ?? el.textContent;
+    return collapse((text || '').split('\n')[0], 50);
+  };
+
+  const parentOf = (el: Element): Element | null => {
+    if (el.parentElement) return el.parentElement;
+    const root = el.parentNode;
+    return root && (root as ShadowRoot).host ? (root as ShadowRoot).host : null;
+  };
+
+  const pathOf = (el: Element): string => {
+    const parts: string[] = [];
+    let current: Element | null = el;
+    while (current && current.tagName.toLowerCase() !== 'html') {
+      const tag = current.tagName.toLowerCase();
+      const siblings: Element[] = current.parentNode ? Array.from(current.parentNode.children) : [];
+      const sameTag = siblings.filter(s => s.tagName === current!.tagName);
+      const segment = sameTag.length > 1 ? `${tag}:${sameTag.indexOf(current) + 1}` : tag;
+      const inShadow = !current.parentElement && !!(current.parentNode as ShadowRoot | null)?.host;
+      parts.unshift(inShadow ? `#shadow>${segment}` : segment);
+      current = parentOf(current);
+    }
+    return parts.join('>');
+  };
+
+  const nearbyTextOf = (el: Element, name: string): string => {
+    let current = parentOf(el);
+    for (let depth = 0; current && depth < 3; depth++) {
+      const text = collapse((current as HTMLElement).innerText ?? current.textContent, 80);
+      if (text && text !== name) return text;
+      current = parentOf(current);
+    }
+    return '';
+  };
+
+  const fingerprint = (el: Element) => {
+    const role = roleOf(el);
+    const name = nameOf(el);
+    return { role, name, path: pathOf(el), text: nearbyTextOf(el, name) };
+  };
+
+  // FNV-1a, base36: short and stable across runs
+  const hash = (input: string): string => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+      h ^= input.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(36);
+  };
+
+  const refFor = (fp: { role: string; name: string; path: string; text: string }) =>
+    hash([fp.role, fp.name, fp.path, fp.text].join('\u0001'));
+
+  const assign = (el: Element) => {
+    const fp = fingerprint(el);
+    const ref = refFor(fp);
+    el.setAttribute('data-mcp-ref', ref);
+    return { ref, fingerprint: fp };
+  };
+
+  const allElements = (root: Document | ShadowRoot): Element[] => {
+    const out: Element[] = [];
+    root.querySelectorAll('*').forEach(el => {
+      out.push(el);
+      if (el.shadowRoot) out.push(...allElements(el.shadowRoot));
+    });
+    return out;
+  };
+
+  const similarity = (a: string, b: string): number => {
+    if (!a && !b) return 1;
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+    if (a.includes(b) || b.includes(a)) return 0.6;
+    const ta = new Set(a.toLowerCase().split(/\W+/).filter(Boolean));
+    const tb = new Set(b.toLowerCase().split(/\W+/).filter(Boolean));
+    if (ta.size === 0 || tb.size === 0) return 0;
+    let shared = 0;
+    ta.forEach(t => { if (tb.has(t)) shared++; });
+    return shared / (ta.size + tb.size - shared);
+  };
+
+  const pathSimilarity = (a: string, b: string): number => {
+    if (a === b) return 1;
+    const pa = a.split('>').reverse();
+    const pb = b.split('>').reverse();
+    let common = 0;
+    while (common < pa.length && common < pb.length && pa[common] === pb[common]) common++;
+    return common / Math.max(pa.length, pb.length);
+  };
+
+  // Scores every element with the same role against a stored fingerprint.
+  // The best match is re-tagged with `ref` when it is confident and unambiguous.
+  const locate = (ref: string, fp: { role: string; name: string; path: string; text: string }) => {
+    const scored = allElements(document)
+      .filter(el => roleOf(el) === fp.role)
+      .map(el => {
+        const candidate = fingerprint(el);
+        const score = 0.45 * similarity(candidate.name, fp.name)
+          + 0.3 * pathSimilarity(candidate.path, fp.path)
+          + 0.25 * similarity(candidate.text, fp.text);
+        return { el, candidate, score: Math.round(score * 100) / 100 };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const [best, second] = scored;
+    const confident = !!best && best.score >= 0.6 && (!second || best.score - second.score >= 0.1);
+    if (confident) best.el.setAttribute('data-mcp-ref', ref);
+    return {
+      found: confident,
+      candidates: scored.slice(0, 3).map(s => ({ ...s.candidate, score: s.score }))
+    };
+  };
+
+  w.__mcpRefs = { roleOf, nameOf, fingerprint, assign, locate };
+};
+
+// Tries to re-tag the element matching `fingerprint` with `ref` inside one frame.
+export const relocateRef = async (frame: Frame, ref: string, fingerprint: RefFingerprint): Promise<RelocateResult> => {
+  await frame.evaluate(installRefHelpers);
+  return frame.evaluate((r, fp) => (window as any).__mcpRefs.locate(r, fp), ref, fingerprint);
+};
+
+export const staleRefError = (ref: string, fingerprint: RefFingerprint | undefined, candidates: RefCandidate[]): Error => {
+  if (!fingerprint) {
+    return new Error(`Unknown ref "${ref}": take a new snapshot to get current refs.`);
+  }
+  const best = candidates
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3)
+    .map(c => `  - ${c.role}: "${c.name}" (score ${c.score}, path ${c.path})`)
+    .join('\n');
+  return new Error(
+    `Stale ref "${ref}" (${fingerprint.role}: "${fingerprint.name}"): the element is no longer on the page and could not be re-located.` +
+    (best ? `\nBest candidates:\n${best}` : '\nNo candidates with the same role were found.') +
+    '\nTake a new snapshot to get current refs.'
+  );
+};
@@ -0,0 +1,322 @@
+import { extractArticle } from './article.js';
+import { readResponseBody } from './response-body.js';
+import { fetchWithRetry } from './retry.js';
+import { CachedSearchResponse } from './search-cache.js';
+
+// Search-then-read research: runs one search, fetches the top results in
+// parallel (plain HTTP first, browser rendering as the fallback), extracts the
+// main content with Readability, drops near-duplicate pages and returns the
+// passages most relevant to the query with citations.
+
+export interface ResearchOptions {
+  query: string;
+  /** Number of search results to read (default 5, max 10) */
+  k?: number;
+  provider?: string;
+  /** Excerpts returned per source (default 3) */
+  excerptsPerSource?: number;
+  /** Maximum characters per excerpt (default 700) */
+  maxExcerptChars?: number;
+  /** Render pages in the browser when plain HTTP yields no readable content (default true) */
+  browserFallback?: boolean;
+  /** Per-page timeout in milliseconds (default 20000) */
+  timeout?: number;
+}
+
+export interface ResearchDeps {
+  search: (query: string, num: number, provider?: string) => Promise<CachedSearchResponse>;
+  /** Renders a URL in the browser and returns the final URL and HTML */
+  render: (url: string, timeout: number) => Promise<{ url: string; html: string }>;
+}
+
+export interface ResearchSource {
+  rank: number;
+  /** Citation marker, e.g. "[1]" */
+  citation: string;
+  url: string;
+  title: string;
+  siteName?: string;
+  byline?: string;
+  publishedTime?: string;
+  fetchedAt: string;
+  via: 'http' | 'browser';
+  score: number;
+  excerpts: string[];
+}
+
+export interface ResearchResult {
+  query: string;
+  provider: string;
+  searchedAt: string;
+  /** Set when the search results were served from the search cache (searchedAt is then the cached time) */
+  searchCached?: boolean;
+  sources: ResearchSource[];
+  skipped: Array<{ url: string; reason: string }>;
+}
+
+interface FetchedDoc {
+  url: string;
+  searchTitle: string;
+  searchRank: number;
+  title: string;
+  siteName?: string;
+  byline?: string;
+  publishedTime?: string;
+  markdown: string;
+  fetchedAt: string;
+  via: 'http' | 'browser';
+}
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36';
+const MAX_HTML_CHARS = 3000000;
+// Below this much extracted text a page is treated as an empty JS shell or a block page
+const MIN_CONTENT_CHARS = 400;
+const DUPLICATE_THRESHOLD = 0.8;
+
+const STOPWORDS = new Set(('a an and are as at be by for from has have how in is it its of on or that the this to was were what when where which who why will with ' +
+  'do does did can could should would you your i we our they their them not no but if than then so about into over under more most').split(' '));
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+// Paragraph-sized passages; short blocks (headings, list items) are merged with what follows
+export const splitPassages = (markdown: string): string[] => {
+  const blocks = markdown
+    .split(/\n{2,}/)
+    .map(b => b.replace(/!\[[^\]]*\]\([^)]*\)/g, '').replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').trim())
+    .filter(b => b && !/^[-*_\s]+$/.test(b));
+  const passages: string[] = [];
+  let current = '';
+  for (const block of blocks) {
+    current = current ? `${current}\n${block}` : block;
+    if (current.length >= 300) {
+      passages.push(current);
+      current = '';
+    }
+  }
+  if (current) passages.push(current);
+  return passages;
+};
+
+const shingles = (text: string): Set<string> => {
+  const words = tokenize(text).slice(0, 3000);
+  const set = new Set<string>();
+  for (let i = 0; i + 5 <= words.length; i++) set.add(words.slice(i, i + 5).join(' '));
+  return set;
+};
+
+/** Jaccard similarity of word 5-gram sets; 1 means identical text. */
+export const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const s of a) if (b.has(s)) shared++;
+  return shared / (a.size + b.size - shared);
+};
+
+// Strips fragments and tracking parameters so the same page found twice is read once
+const canonicalUrl = (url: string): string => {
+  try {
+    const u = new URL(url);
+    u.hash = '';
+    for (const key of Array.from(u.searchParams.keys())) {
+      if (/^(utm_|fbclid$|gclid$|ref$)/i.test(key)) u.searchParams.delete(key);
+    }
+    return u.toString().replace(/\/$/, '');
+  } catch (e) {
+    return url;
+  }
+};
+
+// Cuts a passage to `max` characters around the first query term, on word boundaries
+const trimExcerpt = (passage: string, terms: string[], max: number): string => {
+  const text = passage.replace(/\s+/g, ' ').trim();
+  if (text.length <= max) return text;
+  const lower = text.toLowerCase();
+  const hit = terms.map(t => lower.indexOf(t)).filter(i => i >= 0).sort((a, b) => a - b)[0] ?? 0;
+  let start = Math.max(0, hit - Math.floor(max / 3));
+  let end = Math.min(text.length, start + max);
+  start = Math.max(0, end - max);
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(' ', end) > start ? text.lastIndexOf(' ', end) : end;
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Scores passages with BM25 against the query (plus a bonus for the exact
+ * phrase) and ranks documents by their best passages.
+ */
+const rankDocuments = (query: string, docs: FetchedDoc[], excerptsPerSource: number, maxExcerptChars: number) => {
+  const terms = Array.from(new Set(tokenize(query)));
+  const phrase = query.toLowerCase().trim();
+  const passages = docs.map(doc => splitPassages(doc.markdown).map(text => ({ text, tokens: tokenize(text) })));
+  const all = passages.flat();
+  const avgLength = all.reduce((sum, p) => sum + p.tokens.length, 0) / Math.max(1, all.length);
+  const idf = new Map(terms.map(term => {
+    const df = all.filter(p => p.tokens.includes(term)).length;
+    return [term, Math.log(1 + (all.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  const scorePassage = (p: { text: string; tokens: string[] }) => {
+    let score = 0;
+    for (const term of terms) {
+      const tf = p.tokens.filter(t => t === term).length;
+      if (tf) score += idf.get(term)! * (tf * 2.2) / (tf + 1.2 * (0.25 + 0.75 * p.tokens.length / avgLength));
+    }
+    if (phrase.includes(' ') && p.text.toLowerCase().includes(phrase)) score += 1;
+    return score;
+  };
+
+  return docs.map((doc, i) => {
+    const scored = passages[i].map(p => ({ text: p.text, score: scorePassage(p) })).sort((a, b) => b.score - a.score);
+    const titleHits = terms.filter(t => tokenize(doc.title).includes(t)).length;
+    // Best passage dominates; supporting passages and title matches break ties
+    const score = (scored[0]?.score ?? 0) + 0.3 * ((scored[1]?.score ?? 0) + (scored[2]?.score ?? 0)) + 0.5 * titleHits;
+    const excerpts = scored.filter(p => p.score > 0).slice(0, excerptsPerSource);
+    return {
+      doc,
+      score: Math.round(score * 100) / 100,
+      // Pages that never mention the query terms still get their opening passage as context
+      excerpts: (excerpts.length ? excerpts : scored.slice(0, 1)).map(p => trimExcerpt(p.text, terms, maxExcerptChars))
+    };
+  }).sort((a, b) => b.score - a.score || a.doc.searchRank - b.doc.searchRank);
+};
+
+const toDoc = (html: string, url: string, base: { searchTitle: string; searchRank: number }, via: 'http' | 'browser'): FetchedDoc | null => {
+  const article = extractArticle(html, url);
+  if (!article || article.markdown.length < MIN_CONTENT_CHARS) return null;
+  return {
+    url,
+    ...base,
+    title: article.title || base.searchTitle,
+    ...(article.siteName ? { siteName: article.siteName } : {}),
+    ...(article.byline ? { byline: article.byline } : {}),
+    ...(article.publishedTime ? { publishedTime: article.publishedTime } : {}),
+    markdown: article.markdown,
+    fetchedAt: new Date().toISOString(),
+    via
+  };
+};
+
+// Plain HTTP fetch; returns null when the page needs a browser (no readable content)
+const fetchOverHttp = async (url: string, base: { searchTitle: string; searchRank: number }, timeout: number): Promise<FetchedDoc | null> => {
+  const { response } = await fetchWithRetry(url, {
+    headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5' }
+  }, { retries: 1 }, timeout);
+  if (!response.ok) {
+    await response.body?.cancel().catch(() => {});
+    // 401/403/429 are often bot protection that a real browser gets past
+    if ([401, 403, 429, 503].includes(response.status)) return null;
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+  const read = await readResponseBody(response, { limit: MAX_HTML_CHARS, timeoutMs: timeout });
+  if (read.kind === 'binary' || typeof read.body !== 'string') {
+    throw new Error(`Unsupported content type ${response.headers.get('content-type') || read.binary?.sniffedType || 'unknown'}`);
+  }
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.startsWith('text/plain') || contentType.includes('markdown')) {
+    if (read.body.trim().length < MIN_CONTENT_CHARS) return null;
+    return { url: response.url || url, ...base, title: base.searchTitle, markdown: read.body, fetchedAt: new Date().toISOString(), via: 'http' };
+  }
+  return toDoc(read.body, response.url || url, base, 'http');
+};
+
+export const isValidResearchOptions = (args: any): args is ResearchOptions => {
+  if (typeof args !== 'object' || args === null) return false;
+  if (typeof args.query !== 'string' || !args.query.trim()) return false;
+  for (const key of ['k', 'excerptsPerSource', 'maxExcerptChars', 'timeout']) {
+    if (args[key] !== undefined && (typeof args[key] !== 'number' || args[key] <= 0)) return false;
+  }
+  if (args.provider !== undefined && typeof args.provider !== 'string') return false;
+  if (args.browserFallback !== undefined && typeof args.browserFallback !== 'boolean') return false;
+  return true;
+};
+
+export const research = async (options: ResearchOptions, deps: ResearchDeps): Promise<ResearchResult> => {
+  const k = Math.min(Math.floor(options.k ?? 5), 10);
+  const timeout = options.timeout ?? 20000;
+  const searchedAt = new Date().toISOString();
+  // A couple of spare results make up for duplicate URLs
+  const search = await deps.search(options.query, Math.min(10, k + 2), options.provider);
+
+  const skipped: ResearchResult['skipped'] = [];
+  const seenUrls = new Set<string>();
+  const candidates = search.results.filter(result => {
+    const canonical = canonicalUrl(result.link);
+    if (seenUrls.has(canonical)) {
+      skipped.push({ url: result.link, reason: 'duplicate URL' });
+      return false;
+    }
+    seenUrls.add(canonical);
+    return true;
+  }).slice(0, k);
+
+  const fetched = await Promise.all(candidates.map(async (result, i) => {
+    const base = { searchTitle: result.title, searchRank: i + 1 };
+    let httpError: string | null = null;
+    try {
+      const doc = await fetchOverHttp(result.link, base, timeout);
+      if (doc) return doc;
+    } catch (e: any) {
+      httpError = e.message;
+      // Missing pages and non-HTML documents won't improve in a browser
+      if (/^(Unsupported content type|HTTP \d)/.test(e.message)) {
+        skipped.push({ url: result.link, reason: e.message });
+        return null;
+      }
+    }
+    if (options.browserFallback === false) {
+      skipped.push({ url: result.link, reason: httpError || 'no readable content over HTTP' });
+      return null;
+    }
+    return { pending: result.link, base, httpError };
+  }));
+
+  // Browser renders run one at a time: each is a full page load in the shared browser
+  const docs: FetchedDoc[] = [];
+  for (const item of fetched) {
+    if (!item) continue;
+    if (!('pending' in item)) {
+      docs.push(item);
+      continue;
+    }
+    try {
+      const rendered = await deps.render(item.pending, timeout);
+      const doc = toDoc(rendered.html, rendered.url, item.base, 'browser');
+      if (doc) docs.push(doc);
+      else skipped.push({ url: item.pending, reason: 'no readable content' });
+    } catch (e: any) {
+      skipped.push({ url: item.pending, reason: item.httpError ? `${item.httpError}; browser: ${e.message}` : e.message });
+    }
+  }
+
+  // Keep the better-ranked copy of near-identical pages (mirrors, syndicated articles)
+  const unique: Array<{ doc: FetchedDoc; shingles: Set<string> }> = [];
+  for (const doc of docs.sort((a, b) => a.searchRank - b.searchRank)) {
+    const docShingles = shingles(doc.markdown);
+    const original = unique.find(u => similarity(u.shingles, docShingles) >= DUPLICATE_THRESHOLD);
+    if (original) skipped.push({ url: doc.url, reason: `near-duplicate of ${original.doc.url}` });
+    else unique.push({ doc, shingles: docShingles });
+  }
+
+  const ranked = rankDocuments(options.query, unique.map(u => u.doc), options.excerptsPerSource ?? 3, options.maxExcerptChars ?? 700);
+  return {
+    query: options.query,
+    provider: search.provider,
+    searchedAt: search.cached && search.cachedAt ? search.cachedAt : searchedAt,
+    ...(search.cached ? { searchCached: true } : {}),
+    sources: ranked.map(({ doc, score, excerpts }, i) => ({
+      rank: i + 1,
+      citation: `[${i + 1}]`,
+      url: doc.url,
+      title: doc.title,
+      ...(doc.siteName ? { siteName: doc.siteName } : {}),
+      ...(doc.byline ? { byline: doc.byline } : {}),
+      ...(doc.publishedTime ? { publishedTime: doc.publishedTime } : {}),
+      fetchedAt: doc.fetchedAt,
+      via: doc.via,
+      score,
+      excerpts
+    })),
+    skipped
+  };
+};
@@ -0,0 +1,312 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { once } from 'events';
+
+// Streaming response body reader for fetch_api. Text is decoded with the
+// response charset and read only until `limit` characters; binary bodies are
+// hashed (and optionally written to disk) chunk by chunk instead of being
+// buffered and base64-encoded; NDJSON and SSE are parsed into event arrays.
+
+export type BodyKind = 'json' | 'text' | 'ndjson' | 'sse' | 'binary';
+
+export interface BinaryInfo {
+  /** Bytes received */
+  size: number;
+  /** MIME type detected from the leading bytes, when recognized */
+  sniffedType?: string;
+  sha256?: string;
+  /** Absolute path the body was written to */
+  savedTo?: string;
+  /** False when the read timed out before the body ended */
+  complete: boolean;
+}
+
+export interface ReadBodyResult {
+  kind: BodyKind;
+  body: any;
+  charset?: string;
+  /** Characters in the full body; only known when it was read completely */
+  bodyLength?: number;
+  bytesRead: number;
+  truncated: boolean;
+  /** The body was still streaming when the timeout expired */
+  timedOut?: boolean;
+  binary?: BinaryInfo;
+}
+
+export interface ReadBodyOptions {
+  /** Maximum characters of text to read */
+  limit: number;
+  /** Time budget for reading the body in milliseconds */
+  timeoutMs: number;
+  /** Write binary bodies to this absolute path */
+  saveTo?: string;
+}
+
+type Signature = { bytes: (number | null)[]; offset?: number; type: string };
+
+const SIGNATURES: Signature[] = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], type: 'image/png' },
+  { bytes: [0xff, 0xd8, 0xff], type: 'image/jpeg' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], type: 'image/gif' },
+  { bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50], type: 'image/webp' },
+  { bytes: [0x00, 0x00, 0x01, 0x00], type: 'image/x-icon' },
+  { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], type: 'application/pdf' },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], type: 'application/zip' },
+  { bytes: [0x1f, 0x8b], type: 'application/gzip' },
+  { bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], type: 'application/x-7z-compressed' },
+  { bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07], type: 'application/vnd.rar' },
+  { bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], type: 'application/x-ole-storage' },
+  { bytes: [0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66, 0x6f, 0x72, 0x6d, 0x61, 0x74, 0x20, 0x33, 0x00], type: 'application/vnd.sqlite3' },
+  { bytes: [0x00, 0x61, 0x73, 0x6d], type: 'application/wasm' },
+  { bytes: [0x7f, 0x45, 0x4c, 0x46], type: 'application/x-elf' },
+  { bytes: [0x4d, 0x5a], type: 'application/x-msdownload' },
+  { bytes: [0x66, 0x74, 0x79, 0x70], offset: 4, type: 'video/mp4' },
+  { bytes: [0x1a, 0x45, 0xdf, 0xa3], type: 'video/webm' },
+  { bytes: [0x49, 0x44, 0x33], type: 'audio/mpeg' },
+  { bytes: [0x4f, 0x67, 0x67, 0x53], type: 'audio/ogg' },
+  { bytes: [0x66, 0x4c, 0x61, 0x43], type: 'audio/flac' },
+  { bytes: [0x77, 0x4f, 0x46, 0x46], type: 'font/woff' },
+  { bytes: [0x77, 0x4f, 0x46, 0x32], type: 'font/woff2' }
+];
+
+/** Detects a MIME type from magic bytes, or null when the format is not recognized. */
+export const sniffMime = (bytes: Uint8Array): string | null => {
+  const match = SIGNATURES.find(sig => {
+    const offset = sig.offset ?? 0;
+    return bytes.length >= offset + sig.bytes.length &&
+      sig.bytes.every((b, i) => b === null || bytes[offset + i] === b);
+  });
+  return match ? match.type : null;
+};
+
+const TEXT_TYPE = /^(text\/|application\/([\w.+-]+\+)?(json|xml|javascript|ecmascript|x-www-form-urlencoded|graphql|yaml|x-yaml|csv|sql)\b)/i;
+const NDJSON_TYPE = /^application\/(x-)?(ndjson|jsonl|jsonlines|json-seq)\b/i;
+
+// Unlabelled or generic bodies count as text when they have no magic bytes, no NUL and decode as UTF-8
+const looksLikeText = (bytes: Uint8Array): boolean => {
+  if (sniffMime(bytes) || bytes.includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, Math.min(bytes.length, 4096)), { stream: true });
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/** Classifies a body by its declared type, falling back to sniffing the first chunk. */
+export const bodyKindOf = (contentType: string | null, firstBytes: Uint8Array): BodyKind => {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (type === 'text/event-stream') return 'sse';
+  if (NDJSON_TYPE.test(type)) return 'ndjson';
+  if (/^application\/([\w.+-]+\+)?json$/.test(type)) return 'json';
+  if (TEXT_TYPE.test(type)) return 'text';
+  if (type === 'application/octet-stream' || /^(image|audio|video|font)\//.test(type)) {
+    return type === 'image/svg+xml' ? 'text' : 'binary';
+  }
+  return looksLikeText(firstBytes) ? 'text' : 'binary';
+};
+
+/** Charset from the BOM, the Content-Type header, or an HTML/XML declaration in the first bytes (default utf-8). */
+export const detectCharset = (contentType: string | null, firstBytes: Uint8Array): string => {
+  if (firstBytes[0] === 0xef && firstBytes[1] === 0xbb && firstBytes[2] === 0xbf) return 'utf-8';
+  if (firstBytes[0] === 0xff && firstBytes[1] === 0xfe) return 'utf-16le';
+  if (firstBytes[0] === 0xfe && firstBytes[1] === 0xff) return 'utf-16be';
+  const declared = contentType?.match(/charset="?([\w.:-]+)"?/i)?.[1];
+  if (declared) return declared.toLowerCase();
+  const head = Buffer.from(firstBytes.subarray(0, 1024)).toString('latin1');
+  const meta = head.match(/<meta[^>]+charset=["']?([\w.:-]+)/i) || head.match(/<\?xml[^>]+encoding=["']([\w.:-]+)/i);
+  return meta ? meta[1].toLowerCase() : 'utf-8';
+};
+
+const createDecoder = (charset: string) => {
+  try {
+    return { decoder: new TextDecoder(charset), charset };
+  } catch (e) {
+    // Labels the runtime does not know fall back to UTF-8
+    return { decoder: new TextDecoder('utf-8'), charset: 'utf-8' };
+  }
+};
+
+/** Parses NDJSON lines; a trailing partial line is dropped when the body was cut off. */
+export const parseNdjson = (text: string, complete: boolean): any[] => {
+  const lines = text.split(/\r?\n/);
+  if (!complete) lines.pop();
+  return lines.filter(line => line.trim()).map(line => {
+    try {
+      return JSON.parse(line);
+    } catch (e) {
+      return { unparsed: line };
+    }
+  });
+};
+
+export interface SseEvent {
+  event?: string;
+  id?: string;
+  retry?: number;
+  /** Event data, JSON-parsed when possible */
+  data: any;
+}
+
+/** Parses a text/event-stream body into events; a trailing partial event is dropped when the body was cut off. */
+export const parseSse = (text: string, complete: boolean): SseEvent[] => {
+  const blocks = text.replace(/\r\n?/g, '\n').split(/\n\n/);
+  if (!complete) blocks.pop();
+  const events: SseEvent[] = [];
+  for (const block of blocks) {
+    const data: string[] = [];
+    const event: Partial<SseEvent> = {};
+    for (const line of block.split('\n')) {
+      if (!line || line.startsWith(':')) continue;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'data') data.push(value);
+      else if (field === 'event') event.event = value;
+      else if (field === 'id') event.id = value;
+      else if (field === 'retry' && /^\d+$/.test(value)) event.retry = Number(value);
+    }
+    if (data.length === 0 && event.event === undefined) continue;
+    const joined = data.join('\n');
+    let parsed: any = joined;
+    try {
+      parsed = JSON.parse(joined);
+    } catch (e) {
+      // Keep non-JSON data as the raw string
+    }
+    events.push({ ...event, data: parsed });
+  }
+  return events;
+};
+
+type Reader = ReadableStreamDefaultReader<Uint8Array>;
+
+// Reads one chunk, or returns null when the deadline passes first
+const readChunk = async (reader: Reader, deadline: number): Promise<ReadableStreamReadResult<Uint8Array> | null> => {
+  const remaining = deadline - Date.now();
+  if (remaining <= 0) return null;
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), remaining); });
+  try {
+    return await Promise.race([reader.read(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const readBinary = async (reader: Reader, first: Uint8Array, deadline: number, saveTo?: string) => {
+  const hash = createHash('sha256');
+  let size = 0;
+  let complete = false;
+  let file: fs.WriteStream | undefined;
+  if (saveTo) {
+    fs.mkdirSync(path.dirname(saveTo), { recursive: true });
+    file = fs.createWriteStream(saveTo);
+  }
+  try {
+    let chunk: Uint8Array | undefined = first;
+    while (chunk) {
+      hash.update(chunk);
+      size += chunk.length;
+      if (file && !file.write(chunk)) await once(file, 'drain');
+      const next = await readChunk(reader, deadline);
+      if (!next) break;
+      if (next.done) complete = true;
+      chunk = next.done ? undefined : next.value;
+    }
+  } finally {
+    if (!complete) await reader.cancel().catch(() => {});
+    if (file) {
+      file.end();
+      await once(file, 'close');
+    }
+  }
+  return {
+    size,
+    complete,
+    // A partial hash would look valid but identify nothing, so it is only reported for complete bodies
+    ...(complete ? { sha256: hash.digest('hex') } : {})
+  };
+};
+
+/** Reads a fetch Response body according to its kind without buffering more than needed. */
+export const readResponseBody = async (response: Response, options: ReadBodyOptions): Promise<ReadBodyResult> => {
+  const contentType = response.headers.get('content-type');
+  const deadline = Date.now() + options.timeoutMs;
+  if (!response.body) {
+    return { kind: 'text', body: '', bodyLength: 0, bytesRead: 0, truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const first = await readChunk(reader, deadline);
+  if (!first || first.done) {
+    if (!first) await reader.cancel().catch(() => {});
+    return { kind: 'text', body: '', bodyLength: 0, bytesRead: 0, truncated: !first, ...(!first ? { timedOut: true } : {}) };
+  }
+
+  const kind = bodyKindOf(contentType, first.value);
+  if (kind === 'binary') {
+    const result = await readBinary(reader, first.value, deadline, options.saveTo);
+    const sniffedType = sniffMime(first.value);
+    return {
+      kind,
+      body: null,
+      bytesRead: result.size,
+      truncated: false,
+      ...(!result.complete ? { timedOut: true } : {}),
+      binary: {
+        size: result.size,
+        ...(sniffedType ? { sniffedType } : {}),
+        ...(result.sha256 ? { sha256: result.sha256 } : {}),
+        ...(options.saveTo ? { savedTo: options.saveTo } : {}),
+        complete: result.complete
+      }
+    };
+  }
+
+  const { decoder, charset } = createDecoder(detectCharset(contentType, first.value));
+  let text = decoder.decode(first.value, { stream: true });
+  let bytesRead = first.value.length;
+  let complete = false;
+  let timedOut = false;
+  // Read one character past the limit so an exactly-full body is not reported as truncated
+  while (text.length <= options.limit) {
+    const next = await readChunk(reader, deadline);
+    if (!next) {
+      timedOut = true;
+      break;
+    }
+    if (next.done) {
+      complete = true;
+      text += decoder.decode();
+      break;
+    }
+    bytesRead += next.value.length;
+    text += decoder.decode(next.value, { stream: true });
+  }
+  if (!complete) await reader.cancel().catch(() => {});
+
+  const truncated = !complete || text.length > options.limit;
+  const kept = text.length > options.limit ? text.substring(0, options.limit) : text;
+  const base = {
+    charset,
+    bytesRead,
+    truncated,
+    ...(complete ? { bodyLength: text.length } : {}),
+    ...(timedOut ? { timedOut } : {})
+  };
+
+  if (kind === 'ndjson') return { kind, body: parseNdjson(kept, complete && !truncated), ...base };
+  if (kind === 'sse') return { kind, body: parseSse(kept, complete && !truncated), ...base };
+  if (kind === 'json' && !truncated) {
+    try {
+      return { kind, body: JSON.parse(text), ...base };
+    } catch (e) {
+      // Invalid JSON is returned as text below
+    }
+  }
+  // Truncated JSON stays labelled as json (a fragment); complete but invalid JSON is plain text
+  return { kind: truncated ? kind : 'text', body: kept, ...base };
+};
@@ -1,3 +1,13 @@
+import * as path from 'path';
+import { applyAuth, invalidateAuthToken, resolveAuth } from './auth.js';
+import { isValidJsonProjection, JsonProjection, projectJson, ProjectionReport } from './json-projection.js';
+import { isValidPaginationOptions, PageReport, paginate, PaginationOptions, StopReason } from './pagination.js';
+import { PROJECT_ROOT } from './paths.js';
+import { BinaryInfo, BodyKind, readResponseBody } from './response-body.js';
+import { fetchWithRetry, isValidRetryOptions, RetryOptions } from './retry.js';
+
+// Projection needs the whole document, so JSON bodies are read up to this many characters instead of `limit`
+const PROJECTION_READ_LIMIT = 20000000;
 
 // Define the interface for the fetch_api tool arguments
 export interface FetchApiArgs {
@@ -5,9 +15,17 @@ export interface FetchApiArgs {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
   headers?: Record<string, string>;
   body?: any; // Can be string, Buffer, stream, or URLSearchParams
-  timeout?: number; // Timeout in milliseconds
-  limit: number; // Maximum number of characters to return in the response body (required)
+  timeout?: number; // Timeout in milliseconds, per attempt
+  limit: number; // Maximum number of characters to return in the response body (required); reading stops there
   redirect?: 'follow' | 'error' | 'manual'; // Redirect mode
+  profile?: string; // Named auth profile (see auth.ts) applied to the request
+  retry?: RetryOptions; // Backoff/retry policy (see retry.ts); { retries: 0 } disables retries
+  saveTo?: string; // Write binary bodies to this file (relative to the project root) instead of only hashing them
+  select?: JsonProjection['select']; // JSONPath/JMESPath-style expression applied to JSON bodies (see json-projection.ts)
+  include?: JsonProjection['include']; // Field paths to keep
+  exclude?: JsonProjection['exclude']; // Field paths to drop
+  page?: JsonProjection['page']; // Array paging: { path, offset, count }
+  paginate?: PaginationOptions; // Follow next pages and merge their items (see pagination.ts; use fetchApiPages)
 }
 
 // Validate the arguments for fetch_api tool
@@ -21,6 +39,15 @@ export const isValidFetchApiArgs = (args: any): args is FetchApiArgs => {
   if (args.timeout !== undefined && typeof args.timeout !== 'number') return false;
   if (args.limit === undefined || typeof args.limit !== 'number') return false; // limit is required and must be a number
   if (args.redirect !== undefined && !['follow', 'error', 'manual'].includes(args.redirect)) return false;
+  if (args.profile !== undefined && typeof args.profile !== 'string') return false;
+  if (args.retry !== undefined && !isValidRetryOptions(args.retry)) return false;
+  if (args.saveTo !== undefined && (typeof args.saveTo !== 'string' || !args.saveTo)) return false;
+  const { select, include, exclude, page } = args;
+  if (!isValidJsonProjection({ select, include, exclude, page })) return false;
+  if (args.paginate !== undefined) {
+    // Items are located with paginate.itemsPath, so select/page would be ambiguous
+    if (!isValidPaginationOptions(args.paginate) || select !== undefined || page !== undefined) return false;
+  }
   return true;
 };
 
@@ -28,111 +55,178 @@ export interface FetchApiResponse {
   status: number;
   statusText: string;
   headers: Record<string, string>;
-  body: any;
+  body: any; // Parsed JSON, text, an array of NDJSON/SSE events, or null for binary bodies
+  bodyType: BodyKind;
+  charset?: string; // Charset used to decode text bodies
+  binary?: BinaryInfo; // Size, sniffed MIME type, sha256 and saved path of binary bodies
   ok: boolean;
   url: string;
-  bodyLength?: number; // length of the un-truncated body (characters)
+  bodyLength?: number; // length of the un-truncated body (characters), known only when it was read completely
+  bytesRead: number; // Body bytes received before reading stopped
   truncated?: boolean; // whether the body was truncated to satisfy limit
-  responseTimeMs: number; // Add response time in milliseconds
+  bodyTimedOut?: boolean; // The body was still streaming when the timeout expired
+  projection?: ProjectionReport; // What select/page/include/exclude kept and dropped
+  projectionError?: string; // Why the projection could not be applied
+  responseTimeMs: number; // Time of the final attempt in milliseconds
+  attempts: number; // Number of requests sent, including retries
+  totalElapsedMs: number; // Time across all attempts, backoff waits included
 }
 
+const projectionOf = (args: FetchApiArgs): JsonProjection | null => {
+  const { select, include, exclude, page } = args;
+  return select || include?.length || exclude?.length || page ? { select, include, exclude, page } : null;
+};
+
 // Function to make the API request
 export const fetchApi = async (args: FetchApiArgs): Promise<FetchApiResponse> => {
-  const { url, method, headers, body, timeout = 60000, limit, redirect = 'follow' } = args;
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const { url, method, headers, body, timeout = 60000, limit, redirect = 'follow', profile, retry = {}, saveTo } = args;
+  const auth = profile ? await resolveAuth(profile) : null;
+  const request = applyAuth(url, auth, headers);
 
   const startTime = performance.now(); // Start time measurement
 
-  try {
-    const options: RequestInit = {
-      method,
-      headers,
-      signal: controller.signal,
-      redirect, // Add redirect option
-      // The `timeout` option is specific to `node-fetch` and not part of the standard `RequestInit`.
-      // The timeout logic is now handled manually using AbortController.
-    };
-
-    if (body !== undefined) {
-      if (typeof body === 'object' && headers && headers['Content-Type'] === 'application/json') {
-        options.body = JSON.stringify(body);
-      } else {
-        options.body = body; // Works for string, Buffer, FormData, URLSearchParams
-      }
-    }
-
-    const response: Response = await fetch(url, options);
-    clearTimeout(timeoutId);
-
-    const endTime = performance.now(); // End time measurement
-    const responseTimeMs = endTime - startTime; // Calculate response time
-
-    let responseBody: any;
-    const contentType = response.headers.get('content-type');
+  // Timeouts, rate limiting and retries are handled by fetchWithRetry
+  const options: RequestInit = {
+    method,
+    headers: request.headers,
+    redirect, // Add redirect option
+  };
 
-    if (contentType && contentType.includes('application/json')) {
-      responseBody = await response.json();
-    } else if (contentType && (contentType.includes('text/') || contentType.includes('application/xml') || contentType.includes('application/xhtml+xml'))) {
-      responseBody = await response.text();
+  if (body !== undefined) {
+    if (typeof body === 'object' && headers && headers['Content-Type'] === 'application/json') {
+      options.body = JSON.stringify(body);
     } else {
-      // For binary data or unknown content types, try to get as buffer then base64 encode
-      try {
-        const buffer = await response.arrayBuffer();
-        responseBody = Buffer.from(buffer).toString('base64');
-      } catch (e) {
-        responseBody = 'Could not parse body (binary or unknown content type)';
-      }
+      options.body = body; // Works for string, Buffer, FormData, URLSearchParams
     }
-    
-    const responseHeaders: Record<string, string> = {};
-    response.headers.forEach((value, name) => {
-      responseHeaders[name] = value;
-    });
+  }
 
-    // Enforce output limit: convert body to string for length measurement/truncation.
-    let fullBodyString: string;
-    try {
-      if (typeof responseBody === 'string') {
-        fullBodyString = responseBody;
-      } else {
-        fullBodyString = JSON.stringify(responseBody);
-      }
-    } catch (e) {
-      fullBodyString = String(responseBody);
+  let result = await fetchWithRetry(request.url, options, retry, timeout);
+  let attempts = result.attempts;
+  if (result.response.status === 401 && auth?.type === 'oauth2') {
+    // The cached token may have been revoked early: fetch a new one and retry once
+    await result.response.body?.cancel().catch(() => {});
+    invalidateAuthToken(auth.profile);
+    const reauth = applyAuth(url, await resolveAuth(auth.profile), headers);
+    result = await fetchWithRetry(reauth.url, { ...options, headers: reauth.headers }, retry, timeout);
+    attempts += result.attempts;
+  }
+  const { response, responseTimeMs } = result;
+
+  const saveToPath = saveTo ? (path.isAbsolute(saveTo) ? saveTo : path.resolve(PROJECT_ROOT, saveTo)) : undefined;
+  // The body gets its own timeout budget: long-lived streams (SSE) return what arrived in time
+  const projection = projectionOf(args);
+  const read = await readResponseBody(response, {
+    limit: projection ? Math.max(limit, PROJECTION_READ_LIMIT) : limit,
+    timeoutMs: timeout,
+    saveTo: saveToPath
+  });
+
+  let responseBody = read.body;
+  let truncated = read.truncated;
+  let projectionReport: ProjectionReport | undefined;
+  let projectionError: string | undefined;
+  if (projection) {
+    const parsed = ['json', 'ndjson', 'sse'].includes(read.kind) && typeof read.body !== 'string';
+    if (parsed) {
+      const projected = projectJson(read.body, projection);
+      responseBody = projected.value;
+      projectionReport = projected.report;
+      // NDJSON/SSE records are parsed even from a cut-off stream, so the projection may miss later records
+      truncated = read.kind === 'json' ? false : read.truncated;
+    } else {
+      // Error pages are usually not JSON: return them as-is so the failure stays visible
+      projectionError = read.kind === 'json'
+        ? `JSON body is too large to project (over ${PROJECTION_READ_LIMIT} characters) or incomplete`
+        : `Projection needs a JSON response, got ${read.kind}`;
     }
-
-    const bodyLength = fullBodyString.length;
-    let truncated = false;
-    let finalBody: any = responseBody;
-
-    if (typeof limit === 'number' && bodyLength > limit) {
-      // When truncation is necessary, return a string truncated to 'limit' characters.
-      finalBody = fullBodyString.substring(0, limit);
+  }
+  // Projection read past `limit`, so the limit is enforced on the result
+  if (projection && read.kind !== 'binary') {
+    const serialized = typeof responseBody === 'string' ? responseBody : JSON.stringify(responseBody) ?? '';
+    if (serialized.length > limit) {
+      responseBody = serialized.substring(0, limit);
       truncated = true;
-    } else {
-      // If not truncated and original was JSON-parsed, keep original parsed object,
-      // otherwise keep the string.
-      finalBody = responseBody;
     }
+  }
 
-    return {
-      status: response.status,
-      statusText: response.statusText,
-      headers: responseHeaders,
-      body: finalBody,
-      ok: response.ok,
-      url: response.url,
-      bodyLength,
-      truncated,
-      responseTimeMs, // Include response time
-    };
-  } catch (error: any) {
-    clearTimeout(timeoutId);
-    if (error.name === 'AbortError') {
-      throw new Error(`Request timed out after ${timeout / 1000} seconds`);
+  const responseHeaders: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    responseHeaders[name] = value;
+  });
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: responseHeaders,
+    body: responseBody,
+    bodyType: read.kind,
+    ...(read.charset ? { charset: read.charset } : {}),
+    ...(read.binary ? { binary: read.binary } : {}),
+    ok: response.ok,
+    url: response.url,
+    bodyLength: read.bodyLength,
+    bytesRead: read.bytesRead,
+    truncated,
+    ...(read.timedOut ? { bodyTimedOut: true } : {}),
+    ...(projectionReport ? { projection: projectionReport } : {}),
+    ...(projectionError ? { projectionError } : {}),
+    responseTimeMs, // Include response time
+    attempts,
+    totalElapsedMs: performance.now() - startTime,
+  };
+};
+
+export interface PaginatedFetchApiResponse {
+  items: any; // Merged items (after include/exclude), or a string fragment when truncated
+  itemCount: number;
+  pages: PageReport[];
+  stoppedBecause: StopReason;
+  ok: boolean; // false when a page failed
+  truncated: boolean; // whether the serialized items exceeded limit
+  projection?: ProjectionReport;
+  totalElapsedMs: number;
+}
+
+// Fetches every page with fetchApi and merges the items found at paginate.itemsPath
+export const fetchApiPages = async (args: FetchApiArgs): Promise<PaginatedFetchApiResponse> => {
+  const { paginate: options, include, exclude, limit } = args;
+  if (!options) throw new Error('fetchApiPages requires paginate options');
+  const startTime = performance.now();
+
+  const result = await paginate(args.url, options, async pageUrl => {
+    // Pages are read whole so items can be extracted; `limit` and include/exclude apply to the merged result
+    const response = await fetchApi({
+      ...args,
+      url: pageUrl,
+      limit: PROJECTION_READ_LIMIT,
+      paginate: undefined,
+      include: undefined,
+      exclude: undefined
+    });
+    if (typeof response.body === 'string' && response.bodyType === 'json') {
+      throw new Error(`Page body is too large or incomplete JSON (${response.bytesRead} bytes read)`);
     }
-    throw error;
+    return response;
+  });
+
+  let items: any = result.items;
+  let projectionReport: ProjectionReport | undefined;
+  if (include?.length || exclude?.length) {
+    const projected = projectJson(items, { include, exclude });
+    items = projected.value;
+    projectionReport = projected.report;
   }
+  const serialized = JSON.stringify(items);
+  const truncated = serialized.length > limit;
+
+  return {
+    items: truncated ? serialized.substring(0, limit) : items,
+    itemCount: result.items.length,
+    pages: result.pages,
+    stoppedBecause: result.stoppedBecause,
+    ok: result.stoppedBecause !== 'error',
+    truncated,
+    ...(projectionReport ? { projection: projectionReport } : {}),
+    totalElapsedMs: performance.now() - startTime,
+  };
 };
@@ -0,0 +1,174 @@
+// Retries with exponential backoff and a per-host token-bucket rate limiter for
+// outgoing HTTP requests. The limiter is module-level, so every caller in the
+// process (fetch_api, multi_search, ...) shares the same per-host budget.
+
+export interface RetryOptions {
+  /** Extra attempts after the first one (default 2) */
+  retries?: number;
+  /** Status codes that trigger a retry (default 408, 425, 429, 500, 502, 503, 504) */
+  retryOn?: number[];
+  /** First backoff delay in ms, doubled on every attempt (default 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single wait, including Retry-After (default 30000) */
+  maxDelayMs?: number;
+  /** Also retry network errors, timeouts and any retryOn status for non-idempotent methods such as POST (default false) */
+  retryUnsafe?: boolean;
+}
+
+export interface RetryResult {
+  response: Response;
+  attempts: number;
+  /** Wall time across all attempts, waits included */
+  totalElapsedMs: number;
+  /** Duration of the final attempt */
+  responseTimeMs: number;
+}
+
+const DEFAULT_RETRY_ON = [408, 425, 429, 500, 502, 503, 504];
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// Statuses that guarantee the request was not processed, so even a POST can be sent again.
+// A 500/502/504 may come after the upstream already applied the write.
+const isSafeToReplay = (response: Response) =>
+  response.status === 425 || ((response.status === 429 || response.status === 503) && response.headers.has('retry-after'));
+
+export const isValidRetryOptions = (retry: any): retry is RetryOptions => {
+  if (typeof retry !== 'object' || retry === null || Array.isArray(retry)) return false;
+  const nonNegative = (v: any) => v === undefined || (typeof v === 'number' && v >= 0);
+  if (!nonNegative(retry.retries) || !nonNegative(retry.baseDelayMs) || !nonNegative(retry.maxDelayMs)) return false;
+  if (retry.retryOn !== undefined && (!Array.isArray(retry.retryOn) || !retry.retryOn.every((s: any) => Number.isInteger(s)))) return false;
+  if (retry.retryUnsafe !== undefined && typeof retry.retryUnsafe !== 'boolean') return false;
+  return true;
+};
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket per host: `ratePerSecond` tokens are added every second up to
+ * `burst`. Callers wait in FIFO order, so a burst of concurrent requests to one
+ * host is spread out instead of hammering it.
+ */
+class HostRateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private queues: Map<string, Promise<void>> = new Map();
+
+  constructor(private ratePerSecond: number, private burst: number) {}
+
+  acquire(host: string): Promise<void> {
+    if (this.ratePerSecond <= 0) return Promise.resolve();
+    const previous = this.queues.get(host) ?? Promise.resolve();
+    const next = previous.then(() => this.take(host));
+    this.queues.set(host, next);
+    // Drop the queue tail once it has drained so idle hosts don't keep promises alive
+    next.then(() => { if (this.queues.get(host) === next) this.queues.delete(host); });
+    return next;
+  }
+
+  private async take(host: string) {
+    const bucket = this.buckets.get(host) ?? { tokens: this.burst, updatedAt: Date.now() };
+    this.buckets.set(host, bucket);
+    for (;;) {
+      const now = Date.now();
+      bucket.tokens = Math.min(this.burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * this.ratePerSecond);
+      bucket.updatedAt = now;
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - bucket.tokens) / this.ratePerSecond) * 1000));
+    }
+  }
+}
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback;
+};
+
+// Requests per second per host (0 disables limiting) and the allowed burst
+const RATE_LIMIT = envNumber('WEB_CURL_RATE_LIMIT', 5);
+const hostLimiter = new HostRateLimiter(RATE_LIMIT, Math.max(1, envNumber('WEB_CURL_RATE_BURST', RATE_LIMIT)));
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Parses Retry-After (delta seconds or an HTTP date) into milliseconds. */
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Exponential backoff with "equal jitter": half the delay is fixed, half is random
+const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+class AttemptTimeoutError extends Error {}
+
+/**
+ * fetch() with per-host rate limiting and retries. `timeoutMs` applies to each
+ * attempt. Retryable responses that are given up on are returned as-is; network
+ * errors and timeouts are thrown after the last attempt. Non-idempotent methods
+ * are only retried on 425, or on 429/503 with Retry-After, unless retryUnsafe is set.
+ */
+export const fetchWithRetry = async (
+  url: string,
+  init: RequestInit = {},
+  options: RetryOptions = {},
+  timeoutMs: number = 60000
+): Promise<RetryResult> => {
+  const retries = Math.floor(options.retries ?? 2);
+  const retryOn = options.retryOn ?? DEFAULT_RETRY_ON;
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 30000;
+  const method = (init.method || 'GET').toUpperCase();
+  const canRetryAny = options.retryUnsafe || IDEMPOTENT_METHODS.includes(method);
+  const host = new URL(url).host;
+  const start = performance.now();
+
+  for (let attempt = 1; ; attempt++) {
+    await hostLimiter.acquire(host);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(new AttemptTimeoutError()), timeoutMs);
+    const attemptStart = performance.now();
+    const isLast = attempt > retries;
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error: any) {
+      clearTimeout(timeoutId);
+      const timedOut = controller.signal.aborted;
+      if (isLast || !canRetryAny) {
+        if (timedOut) {
+          throw new Error(`Request timed out after ${timeoutMs / 1000} seconds (attempts: ${attempt})`);
+        }
+        if (attempt > 1) error.message = `${error.message} (attempts: ${attempt})`;
+        throw error;
+      }
+      await sleep(backoffDelay(attempt, baseDelayMs, maxDelayMs));
+      continue;
+    }
+    // The timer keeps running while the body is read by the caller; clear it once headers are in
+    clearTimeout(timeoutId);
+
+    if (!retryOn.includes(response.status) || isLast || (!canRetryAny && !isSafeToReplay(response))) {
+      return {
+        response,
+        attempts: attempt,
+        totalElapsedMs: performance.now() - start,
+        responseTimeMs: performance.now() - attemptStart
+      };
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    await response.body?.cancel().catch(() => {});
+    await sleep(Math.min(maxDelayMs, retryAfter ?? backoffDelay(attempt, baseDelayMs, maxDelayMs)));
+  }
+};
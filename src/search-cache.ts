@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { PROJECT_ROOT } from './paths.js';
+import { resolveSearchProvider, SearchParams, SearchResponse, webSearch } from './search.js';
+
+// Persistent search cache under <project root>/search_cache, one JSON file per
+// entry. Entries are keyed by provider + normalized query + parameters so
+// repeated searches don't spend provider quota, and double as query history.
+
+export type CacheMode = 'use' | 'bypass' | 'refresh';
+
+export interface CacheOptions {
+  /** use (default): read and write; bypass: neither; refresh: skip the read, overwrite the entry */
+  cache?: CacheMode;
+  /** Lifetime of a new entry in seconds (default WEB_CURL_SEARCH_CACHE_TTL or 86400; 0 disables writing) */
+  cacheTtl?: number;
+}
+
+export interface CachedSearchResponse extends SearchResponse {
+  cached?: boolean;
+  cachedAt?: string;
+  expiresAt?: string;
+}
+
+interface CacheEntry {
+  key: string;
+  provider: string;
+  query: string;
+  params: Omit<SearchParams, 'query'>;
+  createdAt: string;
+  expiresAt: string;
+  hits: number;
+  lastUsedAt: string;
+  response: SearchResponse;
+}
+
+export const SEARCH_CACHE_DIR = path.join(PROJECT_ROOT, 'search_cache');
+
+const DEFAULT_TTL_SECONDS = 86400;
+
+export const CACHE_MODES: CacheMode[] = ['use', 'bypass', 'refresh'];
+
+const defaultTtl = () => {
+  const value = Number(process.env.WEB_CURL_SEARCH_CACHE_TTL);
+  return process.env.WEB_CURL_SEARCH_CACHE_TTL !== undefined && Number.isFinite(value) && value >= 0 ? value : DEFAULT_TTL_SECONDS;
+};
+
+export const normalizeQuery = (query: string) => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const cacheKey = (provider: string, params: SearchParams) => {
+  const { query, ...rest } = params;
+  // Sorted, undefined-free parameters so { num: 5 } and { num: 5, site: undefined } share an entry
+  const normalized = Object.fromEntries(Object.entries(rest).filter(([, v]) => v !== undefined && v !== null && v !== '').sort(([a], [b]) => a.localeCompare(b)));
+  return createHash('sha256').update(JSON.stringify([provider, normalizeQuery(query), normalized])).digest('hex').substring(0, 32);
+};
+
+const entryPath = (key: string) => path.join(SEARCH_CACHE_DIR, `${key}.json`);
+
+const readEntry = (file: string): CacheEntry | null => {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    return null;
+  }
+};
+
+const writeEntry = (entry: CacheEntry) => {
+  fs.mkdirSync(SEARCH_CACHE_DIR, { recursive: true });
+  // Write then rename so concurrent readers never see a half-written file
+  const tmp = `${entryPath(entry.key)}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(entry, null, 2));
+  fs.renameSync(tmp, entryPath(entry.key));
+};
+
+const allEntries = (): Array<{ file: string; entry: CacheEntry }> => {
+  if (!fs.existsSync(SEARCH_CACHE_DIR)) return [];
+  return fs.readdirSync(SEARCH_CACHE_DIR)
+    .filter(name => name.endsWith('.json'))
+    .map(name => ({ file: path.join(SEARCH_CACHE_DIR, name), entry: readEntry(path.join(SEARCH_CACHE_DIR, name)) }))
+    .filter((item): item is { file: string; entry: CacheEntry } => item.entry !== null);
+};
+
+const isExpired = (entry: CacheEntry) => Date.parse(entry.expiresAt) <= Date.now();
+
+export const isValidCacheOptions = (args: any): boolean =>
+  (args.cache === undefined || CACHE_MODES.includes(args.cache)) &&
+  (args.cacheTtl === undefined || (typeof args.cacheTtl === 'number' && args.cacheTtl >= 0));
+
+/**
+ * webSearch with the disk cache in front. Only successful responses are
+ * cached; hits are returned with `cached: true` and the entry's timestamps.
+ */
+export const cachedSearch = async (params: SearchParams, providerName?: string, options: CacheOptions = {}): Promise<CachedSearchResponse> => {
+  const mode = options.cache ?? 'use';
+  const provider = resolveSearchProvider(providerName).name;
+  const key = cacheKey(provider, params);
+
+  if (mode === 'use') {
+    const entry = readEntry(entryPath(key));
+    if (entry && !isExpired(entry)) {
+      entry.hits += 1;
+      entry.lastUsedAt = new Date().toISOString();
+      writeEntry(entry);
+      return { ...entry.response, query: params.query, cached: true, cachedAt: entry.createdAt, expiresAt: entry.expiresAt };
+    }
+  }
+
+  const response = await webSearch(params, provider);
+  const ttl = options.cacheTtl ?? defaultTtl();
+  if (mode !== 'bypass' && ttl > 0) {
+    const now = new Date();
+    const { query, ...rest } = params;
+    writeEntry({
+      key,
+      provider,
+      query: normalizeQuery(query),
+      params: rest,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttl * 1000).toISOString(),
+      hits: 0,
+      lastUsedAt: now.toISOString(),
+      response
+    });
+  }
+  return { ...response, cached: false };
+};
+
+/** Recent queries, newest use first. Expired entries are included and flagged. */
+export const listSearchCache = (limit: number = 50, query?: string) => {
+  const needle = query ? normalizeQuery(query) : null;
+  return allEntries()
+    .map(({ entry }) => entry)
+    .filter(entry => !needle || entry.query.includes(needle))
+    .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+    .slice(0, limit)
+    .map(entry => ({
+      key: entry.key,
+      provider: entry.provider,
+      query: entry.query,
+      params: entry.params,
+      results: entry.response.results.length,
+      hits: entry.hits,
+      createdAt: entry.createdAt,
+      lastUsedAt: entry.lastUsedAt,
+      expiresAt: entry.expiresAt,
+      expired: isExpired(entry)
+    }));
+};
+
+/** Deletes entries matching every given filter (all entries when none is given). Returns the number removed. */
+export const clearSearchCache = (filter: { key?: string; query?: string; provider?: string; expiredOnly?: boolean } = {}) => {
+  const needle = filter.query ? normalizeQuery(filter.query) : null;
+  let removed = 0;
+  for (const { file, entry } of allEntries()) {
+    if (filter.key && entry.key !== filter.key) continue;
+    if (needle && entry.query !== needle) continue;
+    if (filter.provider && entry.provider !== filter.provider) continue;
+    if (filter.expiredOnly && !isExpired(entry)) continue;
+    fs.unlinkSync(file);
+    removed++;
+  }
+  return removed;
+};
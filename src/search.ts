@@ -0,0 +1,276 @@
+import { JSDOM } from 'jsdom';
+import { fetchWithRetry } from './retry.js';
+
+// Web search behind one provider interface. Providers are configured through
+// environment variables; the provider is picked per call, by
+// WEB_CURL_SEARCH_PROVIDER, or as the first configured one in PROVIDER_ORDER.
+//
+//   google      APIKEY_GOOGLE_SEARCH + CX_GOOGLE_SEARCH (Custom Search JSON API)
+//   bing        APIKEY_BING_SEARCH (BING_SEARCH_ENDPOINT to override the endpoint)
+//   brave       APIKEY_BRAVE_SEARCH
+//   searxng     SEARXNG_URL (instance base URL with the JSON format enabled)
+//   duckduckgo  no key; scrapes the HTML endpoint, used as the last resort
+
+export type SearchProviderName = 'google' | 'bing' | 'brave' | 'searxng' | 'duckduckgo';
+
+export interface SearchParams {
+  query: string;
+  /** Number of results (provider maximums apply) */
+  num?: number;
+  /** 1-based index of the first result */
+  start?: number;
+  /** Language code, e.g. "en" */
+  language?: string;
+  /** Country code, e.g. "US" */
+  region?: string;
+  /** Restrict results to a site/domain */
+  site?: string;
+  /** Google-style recency: d[n], w[n], m[n] or y[n] */
+  dateRestrict?: string;
+}
+
+export interface SearchResult {
+  title: string;
+  link: string;
+  snippet: string;
+  /** 1-based rank within the returned page */
+  position: number;
+}
+
+export interface SearchResponse {
+  provider: SearchProviderName;
+  query: string;
+  results: SearchResult[];
+  /** Non-fatal notes, e.g. SearXNG engines that did not answer */
+  warnings?: string[];
+}
+
+export interface SearchProvider {
+  name: SearchProviderName;
+  isConfigured(): boolean;
+  search(params: SearchParams): Promise<Omit<SearchResponse, 'provider' | 'query'>>;
+}
+
+/** A provider rejected the request (bad key, quota exhausted, blocked, ...). */
+export class SearchProviderError extends Error {
+  constructor(public provider: SearchProviderName, message: string, public status?: number) {
+    super(`${provider} search failed${status ? ` (HTTP ${status})` : ''}: ${message}`);
+  }
+}
+
+export const PROVIDER_ORDER: SearchProviderName[] = ['google', 'brave', 'bing', 'searxng', 'duckduckgo'];
+
+const SEARCH_TIMEOUT = 30000;
+
+const results = (items: Array<{ title?: string; link?: string; snippet?: string }>): SearchResult[] =>
+  items
+    .filter(item => item.link)
+    .map((item, i) => ({ title: item.title || '', link: item.link!, snippet: (item.snippet || '').replace(/\s+/g, ' ').trim(), position: i + 1 }));
+
+// Splits "d7"/"w2"/"m6"/"y1" into a unit; providers without day counts round to their nearest window
+const recencyUnit = (dateRestrict?: string): 'day' | 'week' | 'month' | 'year' | null => {
+  const unit = dateRestrict?.trim().toLowerCase()[0];
+  return unit === 'd' ? 'day' : unit === 'w' ? 'week' : unit === 'm' ? 'month' : unit === 'y' ? 'year' : null;
+};
+
+const withSite = (params: SearchParams) => (params.site ? `${params.query} site:${params.site}` : params.query);
+
+const getJson = async (provider: SearchProviderName, url: string, init: RequestInit = {}) => {
+  const { response } = await fetchWithRetry(url, init, {}, SEARCH_TIMEOUT);
+  const text = await response.text();
+  let data: any = null;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    if (response.ok) throw new SearchProviderError(provider, `Invalid JSON response: ${text.substring(0, 200)}`, response.status);
+  }
+  return { response, data, text };
+};
+
+const google: SearchProvider = {
+  name: 'google',
+  isConfigured: () => !!(process.env.APIKEY_GOOGLE_SEARCH && process.env.CX_GOOGLE_SEARCH),
+  async search(params) {
+    const url = new URL('https://www.googleapis.com/customsearch/v1');
+    url.searchParams.set('key', process.env.APIKEY_GOOGLE_SEARCH!);
+    url.searchParams.set('cx', process.env.CX_GOOGLE_SEARCH!);
+    url.searchParams.set('q', params.query);
+    if (params.num) url.searchParams.set('num', String(Math.min(params.num, 10)));
+    if (params.start) url.searchParams.set('start', String(params.start));
+    if (params.language) url.searchParams.set('lr', `lang_${params.language}`);
+    if (params.region) url.searchParams.set('cr', `country${params.region.toUpperCase()}`);
+    if (params.site) url.searchParams.set('siteSearch', params.site);
+    if (params.dateRestrict) url.searchParams.set('dateRestrict', params.dateRestrict);
+
+    const { response, data, text } = await getJson('google', url.toString());
+    if (!response.ok || data?.error) {
+      // e.g. { error: { code: 429, message: "Quota exceeded ...", errors: [{ reason: "rateLimitExceeded" }] } }
+      const reason = data?.error?.errors?.[0]?.reason || data?.error?.status;
+      const message = data?.error?.message || text.substring(0, 200) || response.statusText;
+      throw new SearchProviderError('google', reason ? `${reason}: ${message}` : message, data?.error?.code || response.status);
+    }
+    return { results: results((data.items || []).map((item: any) => ({ title: item.title, link: item.link, snippet: item.snippet }))) };
+  }
+};
+
+const bing: SearchProvider = {
+  name: 'bing',
+  isConfigured: () => !!process.env.APIKEY_BING_SEARCH,
+  async search(params) {
+    const url = new URL(process.env.BING_SEARCH_ENDPOINT || 'https://api.bing.microsoft.com/v7.0/search');
+    url.searchParams.set('q', withSite(params));
+    if (params.num) url.searchParams.set('count', String(Math.min(params.num, 50)));
+    if (params.start) url.searchParams.set('offset', String(params.start - 1));
+    if (params.language && params.region) url.searchParams.set('mkt', `${params.language}-${params.region.toUpperCase()}`);
+    else if (params.language) url.searchParams.set('setLang', params.language);
+    const unit = recencyUnit(params.dateRestrict);
+    if (unit && unit !== 'year') url.searchParams.set('freshness', unit[0].toUpperCase() + unit.slice(1));
+
+    const { response, data, text } = await getJson('bing', url.toString(), {
+      headers: { 'Ocp-Apim-Subscription-Key': process.env.APIKEY_BING_SEARCH! }
+    });
+    if (!response.ok || data?.error || data?._type === 'ErrorResponse') {
+      const error = data?.error || data?.errors?.[0];
+      throw new SearchProviderError('bing', error ? `${error.code}: ${error.message}` : text.substring(0, 200) || response.statusText, response.status);
+    }
+    return { results: results((data.webPages?.value || []).map((item: any) => ({ title: item.name, link: item.url, snippet: item.snippet }))) };
+  }
+};
+
+const brave: SearchProvider = {
+  name: 'brave',
+  isConfigured: () => !!process.env.APIKEY_BRAVE_SEARCH,
+  async search(params) {
+    const url = new URL('https://api.search.brave.com/res/v1/web/search');
+    const count = Math.min(params.num || 10, 20);
+    url.searchParams.set('q', withSite(params));
+    url.searchParams.set('count', String(count));
+    // Brave pages by page index, not by result offset
+    if (params.start && params.start > 1) url.searchParams.set('offset', String(Math.min(9, Math.floor((params.start - 1) / count))));
+    if (params.language) url.searchParams.set('search_lang', params.language);
+    if (params.region) url.searchParams.set('country', params.region.toUpperCase());
+    const unit = recencyUnit(params.dateRestrict);
+    if (unit) url.searchParams.set('freshness', { day: 'pd', week: 'pw', month: 'pm', year: 'py' }[unit]);
+
+    const { response, data, text } = await getJson('brave', url.toString(), {
+      headers: { Accept: 'application/json', 'X-Subscription-Token': process.env.APIKEY_BRAVE_SEARCH! }
+    });
+    if (!response.ok || data?.type === 'ErrorResponse') {
+      const error = data?.error;
+      throw new SearchProviderError('brave', error ? `${error.code}: ${error.detail}` : text.substring(0, 200) || response.statusText, response.status);
+    }
+    return { results: results((data.web?.results || []).map((item: any) => ({ title: item.title, link: item.url, snippet: item.description }))) };
+  }
+};
+
+const searxng: SearchProvider = {
+  name: 'searxng',
+  isConfigured: () => !!process.env.SEARXNG_URL,
+  async search(params) {
+    const url = new URL('search', process.env.SEARXNG_URL!.replace(/\/?$/, '/'));
+    url.searchParams.set('q', withSite(params));
+    url.searchParams.set('format', 'json');
+    // SearXNG returns pages of roughly 10 results
+    if (params.start && params.start > 1) url.searchParams.set('pageno', String(Math.floor((params.start - 1) / 10) + 1));
+    if (params.language) url.searchParams.set('language', params.region ? `${params.language}-${params.region.toUpperCase()}` : params.language);
+    const unit = recencyUnit(params.dateRestrict);
+    if (unit) url.searchParams.set('time_range', unit);
+
+    const { response, data, text } = await getJson('searxng', url.toString(), { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      const hint = response.status === 403 ? 'the instance must enable "json" under search.formats' : text.substring(0, 200) || response.statusText;
+      throw new SearchProviderError('searxng', hint, response.status);
+    }
+    const items = (data.results || []).slice(0, params.num || undefined);
+    const warnings = (data.unresponsive_engines || []).map((e: any) => (Array.isArray(e) ? `${e[0]}: ${e[1]}` : String(e)));
+    return {
+      results: results(items.map((item: any) => ({ title: item.title, link: item.url, snippet: item.content }))),
+      ...(warnings.length ? { warnings } : {})
+    };
+  }
+};
+
+// DuckDuckGo wraps result links in a redirect: //duckduckgo.com/l/?uddg=<encoded target>
+const unwrapDuckDuckGoLink = (href: string): string => {
+  try {
+    const url = new URL(href, 'https://duckduckgo.com');
+    return url.searchParams.get('uddg') || url.toString();
+  } catch (e) {
+    return href;
+  }
+};
+
+const duckduckgo: SearchProvider = {
+  name: 'duckduckgo',
+  isConfigured: () => true,
+  async search(params) {
+    const form = new URLSearchParams({ q: withSite(params) });
+    if (params.region || params.language) form.set('kl', `${(params.region || 'wt').toLowerCase()}-${(params.language || 'wt').toLowerCase()}`);
+    const unit = recencyUnit(params.dateRestrict);
+    if (unit) form.set('df', unit[0]);
+    if (params.start && params.start > 1) form.set('s', String(params.start - 1));
+
+    const { response } = await fetchWithRetry('https://html.duckduckgo.com/html/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'User-Agent': 'Mozilla/5.0 (compatible; web-curl)' },
+      body: form.toString()
+    }, {}, SEARCH_TIMEOUT);
+    const html = await response.text();
+    if (!response.ok) throw new SearchProviderError('duckduckgo', response.statusText, response.status);
+
+    const document = new JSDOM(html).window.document;
+    if (document.querySelector('.anomaly-modal, #challenge-form') || /anomaly|captcha/i.test(document.title)) {
+      throw new SearchProviderError('duckduckgo', 'Request was blocked by a bot challenge; configure an API-based provider', response.status);
+    }
+    const items = Array.from(document.querySelectorAll('.result'))
+      .filter(node => !node.classList.contains('result--ad'))
+      .map(node => {
+        const anchor = node.querySelector('a.result__a');
+        return {
+          title: anchor?.textContent?.trim(),
+          link: anchor ? unwrapDuckDuckGoLink(anchor.getAttribute('href') || '') : undefined,
+          snippet: node.querySelector('.result__snippet')?.textContent ?? ''
+        };
+      });
+    return { results: results(items).slice(0, params.num || undefined) };
+  }
+};
+
+const PROVIDERS: Record<SearchProviderName, SearchProvider> = { google, bing, brave, searxng, duckduckgo };
+
+const REQUIRED_ENV: Record<SearchProviderName, string> = {
+  google: 'APIKEY_GOOGLE_SEARCH and CX_GOOGLE_SEARCH',
+  bing: 'APIKEY_BING_SEARCH',
+  brave: 'APIKEY_BRAVE_SEARCH',
+  searxng: 'SEARXNG_URL',
+  duckduckgo: ''
+};
+
+export const isSearchProviderName = (name: any): name is SearchProviderName =>
+  typeof name === 'string' && Object.prototype.hasOwnProperty.call(PROVIDERS, name);
+
+/** Lists providers and whether their credentials are present. */
+export const listSearchProviders = () =>
+  PROVIDER_ORDER.map(name => ({ name, configured: PROVIDERS[name].isConfigured() }));
+
+/** Picks the provider for a call: explicit name, then WEB_CURL_SEARCH_PROVIDER, then the first configured one. */
+export const resolveSearchProvider = (name?: string): SearchProvider => {
+  const requested = name || process.env.WEB_CURL_SEARCH_PROVIDER;
+  if (requested) {
+    if (!isSearchProviderName(requested)) {
+      throw new Error(`Unknown search provider "${requested}" (available: ${PROVIDER_ORDER.join(', ')})`);
+    }
+    const provider = PROVIDERS[requested];
+    if (!provider.isConfigured()) throw new Error(`Search provider "${requested}" is not configured: set ${REQUIRED_ENV[requested]}`);
+    return provider;
+  }
+  return PROVIDER_ORDER.map(p => PROVIDERS[p]).find(p => p.isConfigured())!;
+};
+
+/** Runs one search and returns normalized results. Provider failures throw SearchProviderError. */
+export const webSearch = async (params: SearchParams, providerName?: string): Promise<SearchResponse> => {
+  if (typeof params.query !== 'string' || !params.query.trim()) throw new Error('Search query must be a non-empty string');
+  const provider = resolveSearchProvider(providerName);
+  const response = await provider.search(params);
+  return { provider: provider.name, query: params.query, ...response };
+};
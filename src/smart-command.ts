@@ -0,0 +1,184 @@
+// Rule-based intent routing for smart_command: classifies a free-text command
+// into one of the existing tools and pulls out its parameters (URLs, site
+// filters, date ranges, counts). Purely local so it works offline.
+
+export type CommandIntent = 'search' | 'open' | 'extract' | 'download' | 'api' | 'screenshot';
+
+export interface RoutedCommand {
+  intent: CommandIntent;
+  /** Tool the command is dispatched to */
+  tool: string;
+  args: Record<string, any>;
+  /** Which rule picked the intent, e.g. 'keyword "download" with URL' */
+  reason: string;
+}
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'`]+/gi;
+// Bare domains ("example.com/docs") are only recognized for common TLDs so "node.js" stays text
+const DOMAIN_PATTERN = /(?<![@\w./:-])(?:www\.)?(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+(?:com|org|net|io|dev|app|ai|co|edu|gov|info|me|xyz|id|uk|de|fr|jp|ru|cn|in|br|au|ca|nl|es|it)(?::\d+)?(?:\/[^\s<>"'`]*)?(?![\w-])/gi;
+
+const SEARCH_PREFIX = /^\s*(?:please\s+)?(?:search(?:\s+the\s+web)?(?:\s+for)?|google|bing|find(?:\s+me)?|look\s+(?:up|for)|lookup|web\s+search(?:\s+for)?)\b[\s:]*/i;
+
+const RULES: Array<{ intent: Exclude<CommandIntent, 'search' | 'open'>; pattern: RegExp }> = [
+  { intent: 'screenshot', pattern: /\b(screen\s?shot|screen\s?capture|capture\s+(?:the\s+|a\s+)?(?:page|screen|site)|snapshot\s+of)\b/i },
+  { intent: 'download', pattern: /\b(download|save\s+(?:the\s+|this\s+)?(?:file|pdf|image|zip|archive))\b/i },
+  { intent: 'api', pattern: /\b(api|endpoint|json|rest|(?:get|post|put|patch|delete)\s+request|call)\b/i },
+  { intent: 'extract', pattern: /\b(extract|scrape|summar(?:y|ize|ise)|read|tl;?dr|main\s+content|article|text\s+(?:of|from)|links?)\b/i }
+];
+const OPEN_PATTERN = /\b(open|go\s+to|goto|visit|navigate(?:\s+to)?|browse(?:\s+to)?|load)\b/i;
+
+const trimUrl = (url: string) => url.replace(/[.,;:!?)\]}'"]+$/, '');
+
+/** URLs in the command, in order. Bare domains get an https:// prefix. */
+export const extractUrls = (text: string): string[] => {
+  const urls = (text.match(URL_PATTERN) || []).map(trimUrl);
+  const rest = text.replace(URL_PATTERN, ' ').replace(/\bsite:\S+/gi, ' ');
+  for (const domain of rest.match(DOMAIN_PATTERN) || []) urls.push(`https://${trimUrl(domain)}`);
+  return urls;
+};
+
+const stripUrls = (text: string) => text.replace(URL_PATTERN, ' ').replace(DOMAIN_PATTERN, ' ');
+
+const looksLikeApi = (url: string) => {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return /^api\./i.test(hostname) || /\/(api|graphql|rest)(\/|$)|\/v\d+(\/|$)|\.json$/i.test(pathname);
+  } catch (e) {
+    return false;
+  }
+};
+
+const DATE_UNITS: Record<string, string> = { hour: 'd', day: 'd', week: 'w', month: 'm', year: 'y' };
+
+/**
+ * Pulls search parameters out of the command and returns the remaining query:
+ * "top 5" / "5 results" → num, "past week" / "last 3 months" / "today" → dateRestrict,
+ * "site:x.com" / "on x.com" → site.
+ */
+export const extractSearchParams = (text: string) => {
+  const params: { query: string; num?: number; site?: string; dateRestrict?: string } = { query: '' };
+  let rest = text.replace(SEARCH_PREFIX, '');
+
+  const take = (pattern: RegExp, fn: (match: RegExpMatchArray) => void) => {
+    const match = rest.match(pattern);
+    if (!match) return;
+    fn(match);
+    rest = rest.replace(match[0], ' ');
+  };
+
+  take(/\b(?:top|first)\s+(\d{1,3})(?:\s+(?:results|links|hits|sources))?\b|\b(\d{1,3})\s+(?:results|links|hits|sources)\b/i, m => {
+    params.num = Number(m[1] ?? m[2]);
+  });
+  take(/\b(?:(?:in|from|over|during)\s+)?(?:the\s+)?(?:past|last)\s+(\d+)\s+(hour|day|week|month|year)s?\b/i, m => {
+    const unit = m[2].toLowerCase();
+    params.dateRestrict = unit === 'hour' ? 'd1' : `${DATE_UNITS[unit]}${m[1]}`;
+  });
+  take(/\b(?:(?:in|from|over|during)\s+)?(?:the\s+)?(?:past|last)\s+(24\s+hours|hour|day|week|month|year)\b/i, m => {
+    const unit = m[1].toLowerCase();
+    params.dateRestrict = `${DATE_UNITS[unit.startsWith('24') ? 'day' : unit]}1`;
+  });
+  take(/\b(today|yesterday|this\s+week|this\s+month|this\s+year)\b/i, m => {
+    const word = m[1].toLowerCase().replace(/\s+/g, ' ');
+    params.dateRestrict = ({ today: 'd1', yesterday: 'd2', 'this week': 'w1', 'this month': 'm1', 'this year': 'y1' } as Record<string, string>)[word];
+  });
+  take(/\bsite:(\S+)/i, m => { params.site = m[1]; });
+  if (!params.site) {
+    const domain = rest.match(DOMAIN_PATTERN);
+    if (domain) {
+      params.site = trimUrl(domain[0]).replace(/^www\./i, '');
+      // Drop the preposition that introduced the domain ("on reddit.com")
+      rest = rest.replace(new RegExp(`\\b(?:on|from|at|in)\\s+${domain[0].replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'i'), ' ').replace(domain[0], ' ');
+    }
+  }
+
+  params.query = rest.replace(URL_PATTERN, ' ').replace(/\s+/g, ' ').trim().replace(/^[,:;-]\s*|\s*[,:;-]$/g, '');
+  return params;
+};
+
+// Only an uppercase method right before the URL ("POST https://...") or named as a request
+// ("send a DELETE request") counts, so "put them in a table" or "blog posts" never write
+const EXPLICIT_METHOD = /\b(GET|POST|PUT|PATCH|DELETE|HEAD)\s+(?:(?:to\s+)?(?=https?:\/\/|www\.|[a-z0-9-]+\.[a-z])|[Rr]equest\b|REQUEST\b)/;
+
+const parseJsonBody = (text: string) => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return undefined;
+  try {
+    return JSON.parse(text.substring(start, end + 1));
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/**
+ * Classifies a command and builds the arguments for the matching tool.
+ * `command` is the (possibly translated) text used for keywords and search
+ * terms; URLs, paths and JSON bodies are read from `original`, which
+ * translation could have mangled.
+ */
+export const routeCommand = (command: string, original: string = command): RoutedCommand => {
+  const urls = extractUrls(original);
+  const words = stripUrls(command);
+  const url = urls[0];
+
+  if (SEARCH_PREFIX.test(command)) {
+    return { intent: 'search', tool: 'multi_search', args: toSearchArgs(command), reason: 'explicit search verb' };
+  }
+
+  const rule = RULES.find(r => r.pattern.test(words));
+
+  if (rule?.intent === 'screenshot') {
+    const fullPage = /\bfull[\s-]?page|whole\s+page|entire\s+page\b/i.test(words);
+    if (url) {
+      return { intent: 'screenshot', tool: 'browser_flow', args: { url, result: { type: 'screenshot', ...(fullPage ? { fullPage } : {}) } }, reason: 'keyword "screenshot" with URL' };
+    }
+    // Without a URL only clear requests ("take a screenshot", "screenshot of this page") target the active tab
+    if (/^\s*(?:please\s+)?(?:(?:take|capture|grab|make)\s+(?:a\s+|the\s+)?(?:full[\s-]?page\s+)?screen\s?shot|(?:full[\s-]?page\s+)?screen\s?shot(?:\s+of\s+(?:the\s+|this\s+)?(?:current\s+)?(?:page|tab))?\s*[.!]?\s*$)/i.test(words)) {
+      return { intent: 'screenshot', tool: 'take_screenshot', args: fullPage ? { fullPage } : {}, reason: 'screenshot of the current page' };
+    }
+  }
+
+  if (url) {
+    if (rule?.intent === 'download') {
+      // "... to reports/2024 as q1.pdf"
+      const text = stripUrls(original);
+      const folder = text.match(/\b(?:to|into)\s+(?:the\s+)?(?:folder|directory)\s+([~.\w/\\-]+)/i)
+        || text.match(/\b(?:to|into)\s+((?:~|\.{1,2})?[\w.-]*[/\\][~.\w/\\-]*)/i);
+      const filename = text.match(/\bas\s+([\w.-]+\.\w+)/i);
+      return {
+        intent: 'download',
+        tool: 'download_file',
+        args: { url, destinationFolder: folder ? folder[1] : 'downloads', ...(filename ? { filename: filename[1] } : {}) },
+        reason: 'keyword "download" with URL'
+      };
+    }
+    if (rule?.intent === 'api' || looksLikeApi(url)) {
+      const body = parseJsonBody(stripUrls(original));
+      // A JSON body without an explicit method is sent as POST; everything else stays a read
+      const method = original.match(EXPLICIT_METHOD)?.[1] ?? (body !== undefined ? 'POST' : 'GET');
+      return {
+        intent: 'api',
+        tool: 'fetch_api',
+        args: { url, method, limit: 10000, ...(body !== undefined ? { body, headers: { 'Content-Type': 'application/json' } } : {}) },
+        reason: rule?.intent === 'api' ? 'API keyword with URL' : 'URL looks like an API endpoint'
+      };
+    }
+    if (rule?.intent === 'extract') {
+      const type = /\blinks?\b/i.test(words) ? 'links' : 'article';
+      return { intent: 'extract', tool: 'browser_flow', args: { url, result: { type } }, reason: `extraction keyword with URL (${type})` };
+    }
+    return {
+      intent: 'open',
+      tool: 'browser_flow',
+      args: { url },
+      reason: OPEN_PATTERN.test(words) ? 'navigation keyword with URL' : 'URL without other keywords'
+    };
+  }
+
+  return { intent: 'search', tool: 'multi_search', args: toSearchArgs(command), reason: 'no URL or action keyword' };
+};
+
+const toSearchArgs = (command: string) => {
+  const { query, ...params } = extractSearchParams(command);
+  return { queries: [query || command.trim()], ...params };
+};
@@ -0,0 +1,131 @@
+import { BrowserContext, Cookie, CookieData, HTTPRequest, Page } from 'puppeteer';
+
+// Cookie and Web Storage helpers for browser sessions, including import/export
+// in Playwright's storageState format:
+// { cookies: [{ name, value, domain, path, expires, httpOnly, secure, sameSite }],
+//   origins: [{ origin, localStorage: [{ name, value }] }] }
+
+export type StorageType = 'local' | 'session';
+
+export interface StorageStateCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  /** Unix time in seconds, -1 for session cookies */
+  expires: number;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'Strict' | 'Lax' | 'None';
+}
+
+export interface StorageStateOrigin {
+  origin: string;
+  localStorage: Array<{ name: string; value: string }>;
+}
+
+export interface StorageState {
+  cookies: StorageStateCookie[];
+  origins: StorageStateOrigin[];
+}
+
+/** Normalizes a URL or bare host into an origin ("example.com" -> "https://example.com"). */
+export const toOrigin = (value: string): string => {
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`;
+  const origin = new URL(withScheme).origin;
+  if (origin === 'null') throw new Error(`Not a web origin: ${value}`);
+  return origin;
+};
+
+// A cookie belongs to `domain` when the domain equals or is a subdomain of the cookie's domain (or vice versa)
+export const cookieMatchesDomain = (cookie: { domain: string }, domain: string): boolean => {
+  const cookieDomain = cookie.domain.replace(/^\./, '').toLowerCase();
+  const target = domain.replace(/^\./, '').toLowerCase();
+  return cookieDomain === target || target.endsWith(`.${cookieDomain}`) || cookieDomain.endsWith(`.${target}`);
+};
+
+export const toStorageStateCookie = (cookie: Cookie): StorageStateCookie => ({
+  name: cookie.name,
+  value: cookie.value,
+  domain: cookie.domain,
+  path: cookie.path,
+  expires: cookie.session ? -1 : cookie.expires,
+  httpOnly: cookie.httpOnly,
+  secure: cookie.secure,
+  sameSite: cookie.sameSite ?? 'Lax'
+});
+
+/** Converts a cookie from tool arguments or a storageState file into puppeteer's CookieData. */
+export const toCookieData = (cookie: any): CookieData => {
+  if (typeof cookie !== 'object' || cookie === null) throw new Error('Each cookie must be an object');
+  if (typeof cookie.name !== 'string' || typeof cookie.value !== 'string') throw new Error('Each cookie needs string "name" and "value"');
+  let domain = cookie.domain;
+  if (!domain && cookie.url) domain = new URL(cookie.url).hostname;
+  if (typeof domain !== 'string' || !domain) throw new Error(`Cookie "${cookie.name}" needs "domain" or "url"`);
+  if (cookie.sameSite !== undefined && !['Strict', 'Lax', 'None'].includes(cookie.sameSite)) {
+    throw new Error(`Cookie "${cookie.name}": sameSite must be Strict, Lax or None`);
+  }
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain,
+    path: cookie.path ?? '/',
+    ...(typeof cookie.expires === 'number' && cookie.expires > 0 ? { expires: cookie.expires } : {}),
+    ...(cookie.httpOnly !== undefined ? { httpOnly: !!cookie.httpOnly } : {}),
+    ...(cookie.secure !== undefined ? { secure: !!cookie.secure } : {}),
+    ...(cookie.sameSite ? { sameSite: cookie.sameSite } : {})
+  };
+};
+
+export const isValidStorageState = (state: any): state is StorageState =>
+  typeof state === 'object' && state !== null &&
+  Array.isArray(state.cookies) &&
+  (state.origins === undefined || (Array.isArray(state.origins) && state.origins.every((o: any) =>
+    typeof o?.origin === 'string' && Array.isArray(o.localStorage) &&
+    o.localStorage.every((item: any) => typeof item?.name === 'string' && typeof item?.value === 'string'))));
+
+/**
+ * Opens a throwaway tab on `origin` without loading the real site: the document
+ * request is answered with an empty page and every other request is aborted.
+ * Gives access to the origin's localStorage; the caller must close the page.
+ */
+export const openBlankOriginPage = async (context: BrowserContext, origin: string): Promise<Page> => {
+  const page = await context.newPage();
+  try {
+    await page.setRequestInterception(true);
+    page.on('request', (req: HTTPRequest) => {
+      const resolution = req.isNavigationRequest() && req.frame() === page.mainFrame()
+        ? req.respond({ status: 200, contentType: 'text/html', body: '<!doctype html><title></title>' })
+        : req.abort();
+      resolution.catch(() => {});
+    });
+    await page.goto(`${origin}/`, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    return page;
+  } catch (e) {
+    await page.close().catch(() => {});
+    throw e;
+  }
+};
+
+export const readWebStorage = (page: Page, type: StorageType): Promise<Record<string, string>> =>
+  page.evaluate((t: string) => {
+    const store = t === 'session' ? window.sessionStorage : window.localStorage;
+    const items: Record<string, string> = {};
+    for (let i = 0; i < store.length; i++) {
+      const key = store.key(i)!;
+      items[key] = store.getItem(key) ?? '';
+    }
+    return items;
+  }, type);
+
+// Sets (string) or removes (null) keys; `clear` empties the store first
+export const writeWebStorage = (page: Page, type: StorageType, items: Record<string, string | null>, clear: boolean = false): Promise<number> =>
+  page.evaluate((t: string, entries: Record<string, string | null>, reset: boolean) => {
+    const store = t === 'session' ? window.sessionStorage : window.localStorage;
+    if (reset) store.clear();
+    for (const [key, value] of Object.entries(entries)) {
+      if (value === null) store.removeItem(key);
+      else store.setItem(key, value);
+    }
+    return store.length;
+  }, type, items, clear);